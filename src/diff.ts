@@ -0,0 +1,292 @@
+import { ToolCall } from './types.js';
+
+export type FileOperation = 'add' | 'update' | 'delete' | 'write';
+
+export const FILE_OPERATION_LABELS: Record<FileOperation, string> = {
+  add: 'Add',
+  update: 'Update',
+  delete: 'Delete',
+  write: 'Write',
+};
+
+export interface DiffLine {
+  type: 'context' | 'add' | 'remove';
+  text: string;
+}
+
+export interface DiffHunk {
+  header?: string;  // Text after @@ in a patch, or a label such as "Edit 2"
+  lines: DiffLine[];
+}
+
+// Lines added and removed in one file by one tool call
+export interface FileChange {
+  path: string;
+  movedTo?: string;
+  operation: FileOperation;
+  added: number;
+  removed: number;
+}
+
+export interface FileDiff extends FileChange {
+  hunks: DiffHunk[];
+}
+
+// Above this many line pairs an edit is shown as a plain replacement rather
+// than diffed, to bound the cost of the comparison table
+const MAX_DIFF_CELLS = 2_000_000;
+
+/**
+ * Line diff of two texts, from the longest common subsequence of their
+ * lines. Removals are listed before additions within each changed run.
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  // A final newline on both sides would show up as a blank context line
+  if (oldText.endsWith('\n') && newText.endsWith('\n')) {
+    oldText = oldText.slice(0, -1);
+    newText = newText.slice(0, -1);
+  }
+  const a = oldText.split('\n');
+  const b = newText.split('\n');
+
+  // Common prefix and suffix need no table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const lines: DiffLine[] = a.slice(0, start).map(text => ({ type: 'context', text }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if ((midA.length + 1) * (midB.length + 1) > MAX_DIFF_CELLS) {
+    lines.push(...midA.map(text => ({ type: 'remove' as const, text })));
+    lines.push(...midB.map(text => ({ type: 'add' as const, text })));
+  } else {
+    lines.push(...diffMiddle(midA, midB));
+  }
+
+  lines.push(...a.slice(endA).map(text => ({ type: 'context' as const, text })));
+  return lines;
+}
+
+function diffMiddle(a: string[], b: string[]): DiffLine[] {
+  // lcs[i * width + j] is the LCS length of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ type: 'context', text: a[i] });
+      i++;
+      j++;
+    } else if (j >= b.length || (i < a.length && lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+      lines.push({ type: 'remove', text: a[i] });
+      i++;
+    } else {
+      lines.push({ type: 'add', text: b[j] });
+      j++;
+    }
+  }
+  return lines;
+}
+
+function countLines(diff: FileDiff): FileDiff {
+  for (const hunk of diff.hunks) {
+    for (const line of hunk.lines) {
+      if (line.type === 'add') diff.added++;
+      if (line.type === 'remove') diff.removed++;
+    }
+  }
+  return diff;
+}
+
+const PATCH_FILE_HEADER = /^\*\*\* (Add|Update|Delete) File: (.+)$/;
+const PATCH_MOVE_HEADER = /^\*\*\* Move to: (.+)$/;
+
+/**
+ * Parse a Codex apply_patch envelope (`*** Begin Patch` ... `*** End Patch`)
+ * into one diff per file. Added files list their content as additions;
+ * deleted files have no hunks.
+ */
+export function parsePatch(patch: string): FileDiff[] {
+  const diffs: FileDiff[] = [];
+  let current: FileDiff | undefined;
+  let hunk: DiffHunk | undefined;
+
+  for (const line of patch.split('\n')) {
+    const header = PATCH_FILE_HEADER.exec(line);
+    if (header) {
+      current = {
+        path: header[2].trim(),
+        operation: header[1].toLowerCase() as FileOperation,
+        added: 0,
+        removed: 0,
+        hunks: [],
+      };
+      diffs.push(current);
+      hunk = undefined;
+      continue;
+    }
+    if (line.startsWith('*** End Patch')) {
+      current = undefined;
+      continue;
+    }
+    if (!current) continue;
+
+    const move = PATCH_MOVE_HEADER.exec(line);
+    if (move) {
+      current.movedTo = move[1].trim();
+      continue;
+    }
+    // *** End of File and any other markers
+    if (line.startsWith('***')) continue;
+
+    if (line.startsWith('@@')) {
+      hunk = { header: line.slice(2).trim() || undefined, lines: [] };
+      current.hunks.push(hunk);
+      continue;
+    }
+
+    if (current.operation === 'delete') continue;
+    if (!hunk) {
+      hunk = { lines: [] };
+      current.hunks.push(hunk);
+    }
+    // Models often drop the leading space of blank context lines
+    if (line.startsWith('+')) {
+      hunk.lines.push({ type: 'add', text: line.slice(1) });
+    } else if (line.startsWith('-')) {
+      hunk.lines.push({ type: 'remove', text: line.slice(1) });
+    } else {
+      hunk.lines.push({ type: 'context', text: line.startsWith(' ') ? line.slice(1) : line });
+    }
+  }
+
+  // Drop blank lines between the last hunk and the next file header
+  for (const diff of diffs) {
+    const lines = diff.hunks[diff.hunks.length - 1]?.lines;
+    while (lines?.length && lines[lines.length - 1].type === 'context' && lines[lines.length - 1].text === '') {
+      lines.pop();
+    }
+  }
+  return diffs.map(countLines);
+}
+
+/**
+ * The apply_patch envelope inside a shell command, e.g. a heredoc passed to
+ * `apply_patch`, or undefined when the command is not a patch.
+ */
+export function extractPatch(command: string): string | undefined {
+  if (!/^\s*apply_patch\b/.test(command)) return undefined;
+  const start = command.indexOf('*** Begin Patch');
+  if (start < 0) return undefined;
+  const end = command.indexOf('*** End Patch', start);
+  return end < 0 ? command.slice(start) : command.slice(start, end + '*** End Patch'.length);
+}
+
+function str(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+// Script of a shell tool call, from a command string or an argv array
+export function shellCommandText(input: Record<string, unknown>): string | undefined {
+  if (typeof input.command === 'string') return input.command;
+  if (Array.isArray(input.command)) {
+    const argv = input.command.map(String);
+    // ["apply_patch", "<patch>"] or ["bash", "-lc", "<script>"]
+    if (argv[0] === 'apply_patch') return argv.join('\n');
+    return argv.length === 3 && argv[1] === '-lc' ? argv[2] : argv.join(' ');
+  }
+  return undefined;
+}
+
+/**
+ * Diffs for the tool calls that edit files: Claude Code Edit and MultiEdit,
+ * and Codex apply_patch, either as its own tool or run through the shell.
+ * Returns undefined for other tools or inputs of an unexpected shape.
+ */
+export function diffsForToolCall({ name, input }: ToolCall): FileDiff[] | undefined {
+  switch (name) {
+    case 'Edit': {
+      const path = str(input.file_path);
+      const oldText = str(input.old_string);
+      const newText = str(input.new_string);
+      if (path === undefined || oldText === undefined || newText === undefined) return undefined;
+      return [countLines({
+        path,
+        operation: 'update',
+        added: 0,
+        removed: 0,
+        hunks: [{
+          header: input.replace_all === true ? 'all occurrences' : undefined,
+          lines: diffLines(oldText, newText),
+        }],
+      })];
+    }
+
+    case 'MultiEdit': {
+      const path = str(input.file_path);
+      if (path === undefined || !Array.isArray(input.edits)) return undefined;
+      const edits = input.edits as Record<string, unknown>[];
+      const hunks = edits.flatMap((edit, index): DiffHunk[] => {
+        const oldText = str(edit?.old_string);
+        const newText = str(edit?.new_string);
+        if (oldText === undefined || newText === undefined) return [];
+        return [{
+          header: `Edit ${index + 1}${edit.replace_all === true ? ', all occurrences' : ''}`,
+          lines: diffLines(oldText, newText),
+        }];
+      });
+      return [countLines({ path, operation: 'update', added: 0, removed: 0, hunks })];
+    }
+
+    case 'apply_patch': {
+      // Freeform calls carry the patch as raw text, function calls as `input`
+      const patch = str(input.raw) ?? str(input.input);
+      if (patch === undefined) return undefined;
+      const diffs = parsePatch(patch);
+      return diffs.length > 0 ? diffs : undefined;
+    }
+
+    case 'shell':
+    case 'shell_command': {
+      const command = shellCommandText(input);
+      const patch = command !== undefined ? extractPatch(command) : undefined;
+      if (patch === undefined) return undefined;
+      const diffs = parsePatch(patch);
+      return diffs.length > 0 ? diffs : undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Files a tool call changes, for the session summary. Besides the diffed
+ * edits this counts Write calls, whose content is all counted as added
+ * since the previous content of the file is not in the log.
+ */
+export function fileChangesForToolCall(call: ToolCall): FileChange[] {
+  if (call.name === 'Write') {
+    const path = str(call.input.file_path);
+    const content = str(call.input.content);
+    if (path === undefined || content === undefined) return [];
+    const added = content === '' ? 0 : content.replace(/\n$/, '').split('\n').length;
+    return [{ path, operation: 'write', added, removed: 0 }];
+  }
+  return (diffsForToolCall(call) || []).map(({ hunks, ...change }) => change);
+}
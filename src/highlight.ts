@@ -0,0 +1,377 @@
+import { escapeHtml } from './html-utils.js';
+
+// Token classes, styled as .hl-<type> with colors derived from the theme
+type TokenType =
+  | 'comment'
+  | 'string'
+  | 'keyword'
+  | 'literal'
+  | 'number'
+  | 'type'
+  | 'function'
+  | 'property'
+  | 'variable'
+  | 'meta'
+  | 'heading'
+  | 'inserted'
+  | 'deleted';
+
+interface Grammar {
+  // Tried in order at each position; every pattern must be sticky (y flag).
+  // Leading whitespace is consumed before the rules run, so rules for
+  // indented line starts look behind for ^ instead of matching it.
+  rules: [TokenType, RegExp][];
+  keywords?: Set<string>;
+  literals?: Set<string>;
+  types?: Set<string>;
+  capitalizedTypes?: boolean;  // Treat Capitalized identifiers as type names
+  calls?: boolean;             // Mark identifiers followed by ( as functions
+  identifier?: RegExp;
+}
+
+// Larger inputs are escaped without highlighting to keep reports fast
+const MAX_HIGHLIGHT_LENGTH = 200_000;
+
+const IDENTIFIER = /[A-Za-z_$][\w$]*/y;
+const WHITESPACE = /\s+/y;
+
+function words(list: string): Set<string> {
+  return new Set(list.split(/\s+/).filter(Boolean));
+}
+
+const NUMBER = /(?:0[xX][\da-fA-F_]+|0[bB][01_]+|0[oO][0-7_]+|\d[\d_]*(?:\.\d[\d_]*)?(?:[eE][+-]?\d+)?)n?/y;
+const C_LINE_COMMENT = /\/\/.*/y;
+const C_BLOCK_COMMENT = /\/\*[\s\S]*?(?:\*\/|$)/y;
+const DOUBLE_QUOTED = /"(?:\\[\s\S]|[^"\\\n])*"?/y;
+const SINGLE_QUOTED = /'(?:\\[\s\S]|[^'\\\n])*'?/y;
+const BACKTICK_QUOTED = /`(?:\\[\s\S]|[^`\\])*`?/y;
+const HASH_COMMENT = /#.*/y;
+
+const JS_KEYWORDS = words(`
+  async await break case catch class const continue debugger default delete do
+  else export extends finally for from function get if import in instanceof let
+  new of return set static super switch this throw try typeof var void while
+  with yield as
+`);
+
+const TS_KEYWORDS = new Set([...JS_KEYWORDS, ...words(`
+  abstract declare enum implements interface keyof namespace private protected
+  public readonly satisfies type infer is asserts override
+`)]);
+
+const JS_LITERALS = words('true false null undefined NaN Infinity');
+
+const TS_TYPES = words('string number boolean bigint symbol object unknown any never void');
+
+const PYTHON_KEYWORDS = words(`
+  and as assert async await break class continue def del elif else except
+  finally for from global if import in is lambda nonlocal not or pass raise
+  return try while with yield match case
+`);
+
+const GO_KEYWORDS = words(`
+  break case chan const continue default defer else fallthrough for func go
+  goto if import interface map package range return select struct switch type var
+`);
+
+const GO_TYPES = words(`
+  bool byte complex64 complex128 error float32 float64 int int8 int16 int32
+  int64 rune string uint uint8 uint16 uint32 uint64 uintptr any
+`);
+
+const RUST_KEYWORDS = words(`
+  as async await break const continue crate dyn else enum extern fn for if impl
+  in let loop match mod move mut pub ref return self Self static struct super
+  trait type unsafe use where while
+`);
+
+const RUST_TYPES = words(`
+  bool char f32 f64 i8 i16 i32 i64 i128 isize str u8 u16 u32 u64 u128 usize
+  String Vec Option Result Box
+`);
+
+const SHELL_KEYWORDS = words(`
+  if then else elif fi for in do done while until case esac function return
+  export local readonly select time
+`);
+
+const JS_GRAMMAR: Grammar = {
+  rules: [
+    ['comment', C_LINE_COMMENT],
+    ['comment', C_BLOCK_COMMENT],
+    ['string', DOUBLE_QUOTED],
+    ['string', SINGLE_QUOTED],
+    ['string', BACKTICK_QUOTED],
+    ['number', NUMBER],
+  ],
+  keywords: JS_KEYWORDS,
+  literals: JS_LITERALS,
+  capitalizedTypes: true,
+  calls: true,
+};
+
+const TS_GRAMMAR: Grammar = {
+  ...JS_GRAMMAR,
+  keywords: TS_KEYWORDS,
+  types: TS_TYPES,
+};
+
+const PYTHON_GRAMMAR: Grammar = {
+  rules: [
+    ['comment', HASH_COMMENT],
+    ['string', /[rRbBuUfF]{0,2}"""[\s\S]*?(?:"""|$)/y],
+    ['string', /[rRbBuUfF]{0,2}'''[\s\S]*?(?:'''|$)/y],
+    ['string', /[rRbBuUfF]{0,2}"(?:\\[\s\S]|[^"\\\n])*"?/y],
+    ['string', /[rRbBuUfF]{0,2}'(?:\\[\s\S]|[^'\\\n])*'?/y],
+    ['meta', /@[\w.]+/y],
+    ['number', NUMBER],
+  ],
+  keywords: PYTHON_KEYWORDS,
+  literals: words('True False None'),
+  types: words('int float str bool list dict set tuple bytes object'),
+  calls: true,
+};
+
+const GO_GRAMMAR: Grammar = {
+  rules: [
+    ['comment', C_LINE_COMMENT],
+    ['comment', C_BLOCK_COMMENT],
+    ['string', DOUBLE_QUOTED],
+    ['string', SINGLE_QUOTED],
+    ['string', BACKTICK_QUOTED],
+    ['number', NUMBER],
+  ],
+  keywords: GO_KEYWORDS,
+  literals: words('true false nil iota'),
+  types: GO_TYPES,
+  capitalizedTypes: true,
+  calls: true,
+};
+
+const RUST_GRAMMAR: Grammar = {
+  rules: [
+    ['comment', C_LINE_COMMENT],
+    ['comment', C_BLOCK_COMMENT],
+    ['string', /b?"(?:\\[\s\S]|[^"\\])*"?/y],
+    ['string', /r#*"[\s\S]*?"#*/y],
+    // Character literals; a lone quote is a lifetime and stays plain
+    ['string', /b?'(?:\\.[^']*|[^'\\\n])'/y],
+    ['meta', /#!?\[[^\]\n]*\]?/y],
+    ['function', /[a-z_]\w*!/y],
+    ['number', NUMBER],
+  ],
+  keywords: RUST_KEYWORDS,
+  literals: words('true false None Some Ok Err'),
+  types: RUST_TYPES,
+  capitalizedTypes: true,
+  calls: true,
+};
+
+const SHELL_GRAMMAR: Grammar = {
+  rules: [
+    // A # only starts a comment at the start of a word
+    ['comment', /(?<![^\s;|&(])#.*/y],
+    ['string', /"(?:\\[\s\S]|[^"\\])*"?/y],
+    ['string', /'[^']*'?/y],
+    ['variable', /\$(?:\{[^}\n]*\}?|[A-Za-z_]\w*|[0-9@#?*$!-])/y],
+    ['property', /(?<![\w-])--?[A-Za-z][\w-]*/y],
+  ],
+  keywords: SHELL_KEYWORDS,
+  identifier: /[A-Za-z_][\w.-]*/y,
+};
+
+const JSON_GRAMMAR: Grammar = {
+  rules: [
+    ['property', /"(?:\\.|[^"\\\n])*"(?=\s*:)/y],
+    ['string', DOUBLE_QUOTED],
+    ['number', /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/y],
+    ['comment', C_LINE_COMMENT],
+  ],
+  literals: words('true false null'),
+};
+
+const YAML_GRAMMAR: Grammar = {
+  rules: [
+    ['comment', /(?<![^\s])#.*/y],
+    ['meta', /^(?:---|\.\.\.)[ \t]*$/my],
+    ['property', /(?<=^[ \t]*(?:-[ \t]+)?)[^\s#'"\-{}[\],][^:#\n]*(?=:(?:\s|$))/my],
+    ['string', DOUBLE_QUOTED],
+    ['string', SINGLE_QUOTED],
+    ['variable', /[&*][\w-]+/y],
+    ['number', /(?<![\w.-])-?\d+(?:\.\d+)?(?![\w.-])/y],
+  ],
+  literals: words('true false null yes no on off True False Null'),
+  identifier: /[A-Za-z_][\w-]*/y,
+};
+
+const DIFF_GRAMMAR: Grammar = {
+  rules: [
+    ['meta', /^(?:\+\+\+|---|@@|diff |index |\*\*\* ).*/my],
+    ['inserted', /^\+.*/my],
+    ['deleted', /^-.*/my],
+  ],
+};
+
+const MARKDOWN_GRAMMAR: Grammar = {
+  rules: [
+    ['string', /(?<=^ {0,3})(`{3,}|~{3,})[^\n]*\n[\s\S]*?(?:^ {0,3}\1[ \t]*$|(?![\s\S]))/my],
+    ['heading', /(?<=^ {0,3})#{1,6}(?:[ \t].*)?$/my],
+    ['comment', /(?<=^ {0,3})>.*/my],
+    ['meta', /(?<=^[ \t]*)(?:[-*+]|\d+[.)])(?=[ \t])/my],
+    ['string', /`[^`\n]+`/y],
+    ['keyword', /\*\*[^*\n]+\*\*|__[^_\n]+__/y],
+    ['function', /!?\[[^\]\n]*\]\([^)\n]*\)/y],
+  ],
+};
+
+const GRAMMARS: Record<string, Grammar> = {
+  typescript: TS_GRAMMAR,
+  javascript: JS_GRAMMAR,
+  python: PYTHON_GRAMMAR,
+  go: GO_GRAMMAR,
+  rust: RUST_GRAMMAR,
+  shell: SHELL_GRAMMAR,
+  json: JSON_GRAMMAR,
+  yaml: YAML_GRAMMAR,
+  diff: DIFF_GRAMMAR,
+  markdown: MARKDOWN_GRAMMAR,
+};
+
+// Fence info strings and file extensions for each grammar
+const LANGUAGE_ALIASES: Record<string, string> = {
+  ts: 'typescript', tsx: 'typescript', mts: 'typescript', cts: 'typescript',
+  js: 'javascript', jsx: 'javascript', mjs: 'javascript', cjs: 'javascript',
+  py: 'python', python3: 'python', pyi: 'python',
+  golang: 'go',
+  rs: 'rust',
+  sh: 'shell', bash: 'shell', zsh: 'shell', console: 'shell', shellscript: 'shell',
+  jsonc: 'json', json5: 'json', jsonl: 'json',
+  yml: 'yaml',
+  patch: 'diff',
+  md: 'markdown', mdx: 'markdown',
+};
+
+/**
+ * Grammar name for a fence info string or file extension, or undefined when
+ * the language is not supported.
+ */
+export function resolveLanguage(language: string | undefined): string | undefined {
+  if (!language) return undefined;
+  const name = language.toLowerCase();
+  return GRAMMARS[name] ? name : LANGUAGE_ALIASES[name];
+}
+
+/**
+ * Language of a file from its extension, e.g. for Read results and Write
+ * inputs.
+ */
+export function languageForPath(path: string): string | undefined {
+  const name = path.split(/[\\/]/).pop() || '';
+  if (name === 'Dockerfile' || name === 'Makefile') return undefined;
+  if (/^\.?(bash|zsh)rc$|^\.?profile$/.test(name)) return 'shell';
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? resolveLanguage(name.slice(dot + 1)) : undefined;
+}
+
+// Spans never cross a line break, so highlighted code can be split by line
+function wrap(type: TokenType, text: string): string {
+  return text
+    .split('\n')
+    .map(part => (part ? `<span class="hl-${type}">${escapeHtml(part)}</span>` : ''))
+    .join('\n');
+}
+
+function classifyWord(word: string, code: string, end: number, grammar: Grammar): TokenType | undefined {
+  if (grammar.keywords?.has(word)) return 'keyword';
+  if (grammar.literals?.has(word)) return 'literal';
+  if (grammar.types?.has(word)) return 'type';
+  if (grammar.calls && /^\s*\(/.test(code.slice(end, end + 8))) return 'function';
+  if (grammar.capitalizedTypes && /^[A-Z][a-z0-9]/.test(word)) return 'type';
+  return undefined;
+}
+
+function tokenize(code: string, grammar: Grammar): string {
+  const identifier = grammar.identifier || IDENTIFIER;
+  let html = '';
+  let plain = '';
+  let pos = 0;
+
+  const emit = (type: TokenType, text: string) => {
+    html += escapeHtml(plain) + wrap(type, text);
+    plain = '';
+  };
+
+  scan: while (pos < code.length) {
+    WHITESPACE.lastIndex = pos;
+    const space = WHITESPACE.exec(code);
+    if (space) {
+      plain += space[0];
+      pos += space[0].length;
+      continue;
+    }
+
+    for (const [type, pattern] of grammar.rules) {
+      pattern.lastIndex = pos;
+      const match = pattern.exec(code);
+      if (match && match[0].length > 0) {
+        emit(type, match[0]);
+        pos += match[0].length;
+        continue scan;
+      }
+    }
+
+    identifier.lastIndex = pos;
+    const word = identifier.exec(code);
+    if (word) {
+      const end = pos + word[0].length;
+      const type = classifyWord(word[0], code, end, grammar);
+      if (type) {
+        emit(type, word[0]);
+      } else {
+        plain += word[0];
+      }
+      pos = end;
+      continue;
+    }
+
+    plain += code[pos];
+    pos++;
+  }
+
+  return html + escapeHtml(plain);
+}
+
+/**
+ * Escape `code` for HTML, wrapping tokens in .hl-* spans when the language
+ * is supported. Unknown languages and very large inputs are only escaped.
+ */
+export function highlight(code: string, language: string | undefined): string {
+  const name = resolveLanguage(language);
+  if (!name || code.length > MAX_HIGHLIGHT_LENGTH) {
+    return escapeHtml(code);
+  }
+  return tokenize(code, GRAMMARS[name]);
+}
+
+// Read results prefix each line with its number and an arrow: "    12→"
+const LINE_NUMBER_PREFIX = /^(\s*\d+→)(.*)$/;
+
+/**
+ * Highlight a file listing whose lines carry `N→` prefixes. The numbered
+ * lines are highlighted together so multi-line strings and comments are
+ * kept intact; the prefixes are styled separately and any trailing notes
+ * without a prefix are left as plain text.
+ */
+export function highlightNumberedLines(content: string, language: string | undefined): string {
+  const lines = content.split('\n');
+  const numbered = lines.map(line => LINE_NUMBER_PREFIX.exec(line));
+  const code = numbered.flatMap(match => (match ? [match[2]] : [])).join('\n');
+  const highlighted = highlight(code, language).split('\n');
+
+  let next = 0;
+  return lines.map((line, index) => {
+    const match = numbered[index];
+    if (!match) return escapeHtml(line);
+    return `<span class="line-number">${escapeHtml(match[1])}</span>${highlighted[next++] ?? ''}`;
+  }).join('\n');
+}
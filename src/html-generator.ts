@@ -1,4 +1,39 @@
-import { ChatSession, ChatMessage, MessageContent, TokenUsage, ThemeConfig, getTotalTokens } from './types.js';
+import { createHash } from 'crypto';
+import { once } from 'events';
+import {
+  ChatSession,
+  ChatMessage,
+  ChatThread,
+  MessageContent,
+  ToolResult,
+  ToolResultPart,
+  ImageSource,
+  RateLimitSample,
+  RateLimitWindow,
+  TokenUsage,
+  ToolStatus,
+  ThemeConfig,
+  SessionEvent,
+  InterruptionEvent,
+  SessionSource,
+  SessionSummary,
+  TurnContext,
+  getTotalTokens,
+} from './types.js';
+import {
+  CostTally,
+  DEFAULT_PRICES,
+  PriceTable,
+  estimateModelCost,
+  estimateSessionCost,
+  formatCost,
+} from './pricing.js';
+import { escapeHtml } from './html-utils.js';
+import { renderDiffStat, renderToolInput } from './tool-renderers.js';
+import { FILE_OPERATION_LABELS, FileChange, fileChangesForToolCall } from './diff.js';
+import { highlight, highlightNumberedLines, languageForPath } from './highlight.js';
+import { renderMarkdown } from './markdown.js';
+import { inlineIcons, renderIconSprite } from './icons.js';
 
 interface RenderMessage {
   id: string;
@@ -8,169 +43,65 @@ interface RenderMessage {
   model?: string;
   usage?: TokenUsage;
   isHarness?: boolean;
+  event?: SessionEvent;
   kind: 'normal' | 'tool_call' | 'tool_result';
   parentId?: string;
 }
 
-function escapeHtml(text: string): string {
-  return text
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&#039;');
+// Report-wide rendering settings
+export interface HtmlOptions {
+  theme?: ThemeConfig;
+  pricing?: PriceTable;  // Model prices for cost estimates (default: built-in table)
+  pairTools?: boolean;   // Start with each tool result shown inside its call
+  // Inline the icons as SVG so the report makes no external requests
+  // (default: true); when false they are loaded from the Bootstrap Icons CDN
+  offline?: boolean;
 }
 
-function processLists(html: string): string {
-  const lines = html.split('\n');
-  const result: string[] = [];
-  const listStack: number[] = []; // Stack of indentation levels
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    // Match list items: spaces + (- or * or digit.) + space + content
-    const match = line.match(/^(\s*)([\-\*]|\d+\.)\s+(.+)$/);
-
-    if (match) {
-      const indent = match[1].length;
-      const content = match[3];
-
-      // Determine nesting level (every 2 spaces = 1 level)
-      const level = Math.floor(indent / 2);
-
-      // Close lists that are deeper than current level
-      while (listStack.length > 0 && listStack[listStack.length - 1] > level) {
-        listStack.pop();
-        result.push('</ul>');
-      }
-
-      // Open new list if needed
-      if (listStack.length === 0 || listStack[listStack.length - 1] < level) {
-        listStack.push(level);
-        result.push('<ul>');
-      }
-
-      result.push(`<li>${content}</li>`);
-    } else {
-      // Not a list item - close all open lists
-      while (listStack.length > 0) {
-        listStack.pop();
-        result.push('</ul>');
-      }
-      result.push(line);
-    }
-  }
-
-  // Close any remaining open lists
-  while (listStack.length > 0) {
-    listStack.pop();
-    result.push('</ul>');
-  }
-
-  return result.join('\n');
+// Tool call counts and file changes shown in the header
+interface ToolCallStats {
+  total: number;
+  failed: number;  // Results classified as error or interrupted
+  // Files changed by each editing call; dropped again if the call fails
+  fileChanges: Map<string, FileChange[]>;
 }
 
-function parseMarkdown(text: string): string {
-  // Extract code blocks first to protect them from other markdown processing
-  // Use \x00 markers that won't conflict with markdown syntax
-  const codeBlocks: string[] = [];
-  let html = text.replace(/```(\w*)\n([\s\S]*?)```/g, (_, lang, code) => {
-    const placeholder = `\x00CB${codeBlocks.length}\x00`;
-    codeBlocks.push(`<pre class="code-block${lang ? ` language-${lang}` : ''}"><code>${escapeHtml(code.trim())}</code></pre>`);
-    return placeholder;
-  });
-
-  // Extract inline code to protect it
-  const inlineCode: string[] = [];
-  html = html.replace(/`([^`]+)`/g, (_, code) => {
-    const placeholder = `\x00IC${inlineCode.length}\x00`;
-    inlineCode.push(`<code class="inline-code">${escapeHtml(code)}</code>`);
-    return placeholder;
-  });
-
-  // Now escape HTML for the rest
-  html = escapeHtml(html);
-
-  // Bold
-  html = html.replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>');
-  html = html.replace(/__([^_]+)__/g, '<strong>$1</strong>');
-
-  // Italic
-  html = html.replace(/\*([^*]+)\*/g, '<em>$1</em>');
-  html = html.replace(/_([^_]+)_/g, '<em>$1</em>');
-
-  // Headers
-  html = html.replace(/^### (.+)$/gm, '<h3>$1</h3>');
-  html = html.replace(/^## (.+)$/gm, '<h2>$1</h2>');
-  html = html.replace(/^# (.+)$/gm, '<h1>$1</h1>');
-
-  // Process lists with proper nesting
-  html = processLists(html);
-
-  // Blockquotes
-  html = html.replace(/^&gt; (.+)$/gm, '<blockquote>$1</blockquote>');
-
-  // Links
-  html = html.replace(/\[([^\]]+)\]\(([^)]+)\)/g, '<a href="$2" target="_blank" rel="noopener">$1</a>');
-
-  // Paragraphs: double newlines become paragraph breaks
-  html = html.replace(/\n\n+/g, '</p><p>');
-
-  // Single line breaks
-  html = html.replace(/\n/g, '<br>');
-
-  // Wrap in paragraph tags
-  html = '<p>' + html + '</p>';
-
-  // Clean up empty paragraphs
-  html = html.replace(/<p><\/p>/g, '');
-  html = html.replace(/<p>\s*<\/p>/g, '');
-
-  // Restore inline code
-  inlineCode.forEach((code, i) => {
-    html = html.replace(`\x00IC${i}\x00`, code);
-  });
-
-  // Restore code blocks
-  codeBlocks.forEach((block, i) => {
-    html = html.replace(`\x00CB${i}\x00`, block);
-  });
-
-  // Clean up extra <br> and <p> inside block elements
-  html = html.replace(/<\/pre><br>/g, '</pre>');
-  html = html.replace(/<br><pre/g, '<pre');
-  html = html.replace(/<\/h([1-3])><br>/g, '</h$1>');
-  html = html.replace(/<\/li><br>/g, '</li>');
-  html = html.replace(/<\/ul><br>/g, '</ul>');
-  html = html.replace(/<br><ul>/g, '<ul>');
-  html = html.replace(/<\/blockquote><br>/g, '</blockquote>');
-  html = html.replace(/<ul><br>/g, '<ul>');
-  html = html.replace(/<br><li>/g, '<li>');
-
-  // Clean up paragraphs around block elements
-  html = html.replace(/<p><ul>/g, '<ul>');
-  html = html.replace(/<\/ul><\/p>/g, '</ul>');
-  html = html.replace(/<p><pre/g, '<pre');
-  html = html.replace(/<\/pre><\/p>/g, '</pre>');
-  html = html.replace(/<p><h([1-3])>/g, '<h$1>');
-  html = html.replace(/<\/h([1-3])><\/p>/g, '</h$1>');
-  html = html.replace(/<\/p><br><p>/g, '</p><p>');
-  html = html.replace(/<br><\/p>/g, '</p>');
-  html = html.replace(/<p><br>/g, '<p>');
+function createToolCallStats(): ToolCallStats {
+  return { total: 0, failed: 0, fileChanges: new Map() };
+}
 
-  return html;
+interface RenderContext {
+  source: SessionSource;
+  // Sub-agent threads keyed by the id of the tool call that spawned them
+  threadsByToolCall: Map<string, ChatThread>;
+  pricing: PriceTable;
+  // Session model, used to price messages that don't name their own
+  model?: string;
+  // Languages of files being read, keyed by the id of the Read call until
+  // its result is rendered
+  readLanguages: Map<string, string>;
 }
 
-function formatNumber(num: number): string {
+export function formatNumber(num: number): string {
   return num.toLocaleString();
 }
 
-function formatTimestamp(ts: string): string {
+export function formatTimestamp(ts: string): string {
   const date = new Date(ts);
+  if (isNaN(date.getTime())) return '';
   return date.toLocaleString();
 }
 
-function renderTokenUsage(usage: TokenUsage, source?: 'claude' | 'codex' | 'gemini' | 'unknown'): string {
+const CLAUDE_REASONING_NOTE = 'Claude logs do not report thinking tokens separately; they are included in Output';
+
+// `isSessionTotal` marks the header's totals, where a reasoning figure the
+// source never reports is shown as n/a rather than left out
+function renderTokenUsage(
+  usage: TokenUsage,
+  source?: 'claude' | 'codex' | 'gemini' | 'unknown',
+  cost?: number,
+  isSessionTotal = false,
+): string {
   const parts: string[] = [];
   parts.push(`<span class="token-stat"><span class="label">Input:</span> ${formatNumber(usage.inputTokens)}</span>`);
   parts.push(`<span class="token-stat"><span class="label">Output:</span> ${formatNumber(usage.outputTokens)}</span>`);
@@ -181,26 +112,183 @@ function renderTokenUsage(usage: TokenUsage, source?: 'claude' | 'codex' | 'gemi
   if (usage.cacheReadTokens && usage.cacheReadTokens > 0) {
     parts.push(`<span class="token-stat"><span class="label">Cache Read:</span> ${formatNumber(usage.cacheReadTokens)}</span>`);
   }
+  if (usage.reasoningTokens && usage.reasoningTokens > 0) {
+    parts.push(`<span class="token-stat"><span class="label">Reasoning:</span> ${formatNumber(usage.reasoningTokens)}</span>`);
+  } else if (isSessionTotal && source === 'claude') {
+    // Claude logs count thinking as plain output tokens
+    parts.push(`<span class="token-stat" title="${CLAUDE_REASONING_NOTE}"><span class="label">Reasoning:</span> n/a</span>`);
+  }
 
   // Calculate total based on source using shared function
   const total = getTotalTokens(usage, source || 'unknown');
   parts.push(`<span class="token-stat total"><span class="label">Total:</span> ${formatNumber(total)}</span>`);
 
+  if (cost !== undefined) {
+    parts.push(`<span class="token-stat cost"><span class="label">Est. Cost:</span> ${formatCost(cost)}</span>`);
+  }
+
   return parts.join('');
 }
 
-function renderToolInput(input: Record<string, unknown>): string {
-  // Special handling for common tool inputs
-  const formatted = JSON.stringify(input, null, 2);
-  return `<pre class="tool-input">${escapeHtml(formatted)}</pre>`;
+function usageCost(usage: TokenUsage, model: string | undefined, ctx: RenderContext): number | undefined {
+  return estimateModelCost(usage, ctx.source, model || ctx.model, ctx.pricing);
+}
+
+function renderDiagnostics(session: Omit<ChatSession, 'messages'>): string {
+  const diagnostics = session.diagnostics || [];
+  if (diagnostics.length === 0) return '';
+
+  const count = diagnostics.length;
+  const items = diagnostics.map(d => `
+          <li>
+            <span class="diagnostic-line">${d.file ? `${escapeHtml(d.file)}, line` : 'Line'} ${d.line}</span>
+            <span class="diagnostic-error">${escapeHtml(d.error)}</span>
+            <code class="diagnostic-snippet">${escapeHtml(d.snippet)}</code>
+          </li>`).join('');
+
+  return `
+      <details class="parse-warnings">
+        <summary>
+          <i class="bi bi-exclamation-triangle"></i>
+          Skipped ${count} malformed ${count === 1 ? 'line' : 'lines'} while parsing this log
+        </summary>
+        <ul>${items}
+        </ul>
+      </details>`;
+}
+
+function renderAgentBreakdown(session: Omit<ChatSession, 'messages'>): string {
+  const threads = session.threads || [];
+  if (threads.length === 0) return '';
+
+  const items = threads.map(thread => {
+    const count = thread.messages.length;
+    const tokens = getTotalTokens(thread.totalUsage, session.source);
+    return `
+            <li>
+              <span class="agent-name">${escapeHtml(thread.agentId || thread.id)}</span>
+              <span class="agent-stats">${count} ${count === 1 ? 'message' : 'messages'} · ${formatNumber(tokens)} tokens</span>
+            </li>`;
+  }).join('');
+
+  return `
+        <div class="info-item agents">
+          <span class="label">Sub-agents (${threads.length})</span>
+          <ul class="agent-breakdown">${items}
+          </ul>
+        </div>`;
+}
+
+// Chart geometry for the rate-limit timeline, in SVG user units
+const RATE_CHART_WIDTH = 600;
+const RATE_CHART_HEIGHT = 120;
+const RATE_CHART_PADDING = 6;
+
+function formatWindowLength(minutes: number | undefined): string {
+  if (!minutes) return 'Window';
+  if (minutes === 7 * 24 * 60) return 'Weekly';
+  if (minutes % (24 * 60) === 0) return `${minutes / (24 * 60)}d`;
+  if (minutes % 60 === 0) return `${minutes / 60}h`;
+  return `${minutes}m`;
+}
+
+function renderRateLimitLine(
+  samples: RateLimitSample[],
+  key: 'primary' | 'secondary',
+  start: number,
+  span: number,
+): string {
+  const x = (timestamp: string) =>
+    RATE_CHART_PADDING + ((Date.parse(timestamp) - start) / span) * (RATE_CHART_WIDTH - 2 * RATE_CHART_PADDING);
+  const y = (percent: number) =>
+    RATE_CHART_HEIGHT - RATE_CHART_PADDING -
+    (Math.min(Math.max(percent, 0), 100) / 100) * (RATE_CHART_HEIGHT - 2 * RATE_CHART_PADDING);
+
+  // Usage holds until the next sample, so draw steps rather than slopes
+  const points: string[] = [];
+  const dots: string[] = [];
+  let last: RateLimitWindow | undefined;
+  for (const sample of samples) {
+    const window = sample[key];
+    if (!window) continue;
+    const sx = x(sample.timestamp).toFixed(1);
+    if (last) {
+      points.push(`${sx},${y(last.usedPercent).toFixed(1)}`);
+    }
+    points.push(`${sx},${y(window.usedPercent).toFixed(1)}`);
+    dots.push(`<circle cx="${sx}" cy="${y(window.usedPercent).toFixed(1)}" r="2.5"><title>${escapeHtml(`${formatTimestamp(sample.timestamp)}: ${window.usedPercent}%`)}</title></circle>`);
+    last = window;
+  }
+  if (points.length === 0) return '';
+
+  return `<g class="rate-line ${key}"><polyline points="${points.join(' ')}" />${dots.join('')}</g>`;
+}
+
+function renderRateLimits(session: Omit<ChatSession, 'messages'>): string {
+  const samples = session.rateLimits || [];
+  if (samples.length === 0) return '';
+
+  const first = samples[0];
+  const latest = samples[samples.length - 1];
+
+  const windows = (['primary', 'secondary'] as const).map(key => {
+    const initial = samples.find(sample => sample[key])?.[key];
+    const current = [...samples].reverse().find(sample => sample[key])?.[key];
+    if (!initial || !current) return '';
+    const reset = current.resetsAt ? formatTimestamp(current.resetsAt) : '';
+    return `
+            <li>
+              <span class="rate-swatch ${key}"></span>
+              <span class="rate-window">${formatWindowLength(current.windowMinutes)}</span>
+              <span class="rate-usage">${initial.usedPercent}% → ${current.usedPercent}% used</span>
+              ${reset ? `<span class="rate-reset">resets ${escapeHtml(reset)}</span>` : ''}
+            </li>`;
+  }).join('');
+
+  const credits = latest.credits;
+  const creditsHtml = credits && (credits.hasCredits || credits.unlimited)
+    ? `<div class="rate-credits">Credits: ${credits.unlimited ? 'unlimited' : escapeHtml(credits.balance || '0')}</div>`
+    : '';
+
+  // A chart needs at least two points in time
+  const start = Date.parse(first.timestamp);
+  const span = Date.parse(latest.timestamp) - start;
+  let chartHtml = '';
+  if (samples.length > 1 && span > 0) {
+    const grid = [0, 50, 100].map(percent => {
+      const gy = RATE_CHART_HEIGHT - RATE_CHART_PADDING - (percent / 100) * (RATE_CHART_HEIGHT - 2 * RATE_CHART_PADDING);
+      return `<line class="rate-grid" x1="0" x2="${RATE_CHART_WIDTH}" y1="${gy}" y2="${gy}" />`;
+    }).join('');
+    chartHtml = `
+          <svg class="rate-limit-chart" viewBox="0 0 ${RATE_CHART_WIDTH} ${RATE_CHART_HEIGHT}" role="img" aria-label="Rate-limit usage over the session">
+            ${grid}
+            ${renderRateLimitLine(samples, 'secondary', start, span)}
+            ${renderRateLimitLine(samples, 'primary', start, span)}
+          </svg>
+          <div class="rate-axis">
+            <span>${escapeHtml(formatTimestamp(first.timestamp))}</span>
+            <span>${escapeHtml(formatTimestamp(latest.timestamp))}</span>
+          </div>`;
+  }
+
+  return `
+      <div class="rate-limits">
+        <div class="rate-limits-title">Rate Limits</div>
+        <ul class="rate-limit-windows">${windows}
+        </ul>${chartHtml}
+        ${creditsHtml}
+      </div>`;
 }
 
-function renderToolResult(content: string): string {
+function renderToolResult(value: unknown, language?: string): string {
+  // Logs from other harness versions may hold structured content here
+  const content = typeof value === 'string' ? value : JSON.stringify(value, null, 2) ?? '';
+
   // Check if the content looks like code/file output (has line numbers like "    1→")
   const hasLineNumbers = /^\s*\d+→/.test(content);
 
   if (hasLineNumbers) {
-    return `<pre class="tool-result code-output">${escapeHtml(content)}</pre>`;
+    return `<pre class="tool-result code-output">${highlightNumberedLines(content, language)}</pre>`;
   }
 
   // Check if it's a simple result
@@ -211,6 +299,168 @@ function renderToolResult(content: string): string {
   return `<pre class="tool-result">${escapeHtml(content)}</pre>`;
 }
 
+const IMAGE_MEDIA_TYPE = /^image\/[\w.+-]+$/;
+const BASE64 = /^[A-Za-z0-9+/=\s]*$/;
+
+// Only embedded base64 images are displayed, as the Content-Security-Policy
+// allows no others; opening a report never fetches an image
+function imageSrc(image: ImageSource): string | undefined {
+  if (image.data && image.mediaType && IMAGE_MEDIA_TYPE.test(image.mediaType) && BASE64.test(image.data)) {
+    return `data:${image.mediaType};base64,${image.data.replace(/\s/g, '')}`;
+  }
+  return undefined;
+}
+
+function renderImage(image: ImageSource): string {
+  const src = imageSrc(image);
+  if (!src && image.url && /^https?:\/\//i.test(image.url)) {
+    return `<a class="message-image remote" href="${escapeHtml(image.url)}" target="_blank" rel="noopener noreferrer"><i class="bi bi-image"></i> ${escapeHtml(image.url)}</a>`;
+  }
+  if (!src) {
+    return '<div class="message-image unavailable"><i class="bi bi-image"></i> Image not available</div>';
+  }
+  const label = image.mediaType || 'Image';
+  return `<button class="message-image" type="button" title="Click to zoom"><img src="${escapeHtml(src)}" alt="${escapeHtml(label)}" loading="lazy"></button>`;
+}
+
+// Each part in order, with runs of images side by side
+function renderToolResultParts(parts: ToolResultPart[], language?: string): string {
+  let html = '';
+  let images: string[] = [];
+  const flushImages = () => {
+    if (images.length > 0) {
+      html += `
+          <div class="tool-result-images">${images.join('')}</div>`;
+      images = [];
+    }
+  };
+  for (const part of parts) {
+    if (part.type === 'image' && part.image) {
+      images.push(renderImage(part.image));
+      continue;
+    }
+    flushImages();
+    if (part.type === 'other') {
+      html += `
+          <div class="tool-result-part-label">${escapeHtml(part.blockType || 'block')}</div>
+          <pre class="tool-result">${highlight(part.text || '', 'json')}</pre>`;
+    } else if (part.text) {
+      html += renderToolResult(part.text, language);
+    }
+  }
+  flushImages();
+  return html;
+}
+
+function renderToolResultBody(result: ToolResult, language?: string): string {
+  // Results made only of text render as one panel of their joined content
+  if (result.parts?.some(part => part.type !== 'text')) {
+    return renderToolResultParts(result.parts, language);
+  }
+  if (result.stdout === undefined && result.stderr === undefined) {
+    return renderToolResult(result.content, language);
+  }
+
+  // Structured command output: stdout in the usual panel, stderr below it
+  const stdout = result.stdout || '';
+  const stderr = result.stderr || '';
+  // Codex results carry a status header in content, so don't fall back to it
+  const emptyOutput = result.exitCode !== undefined ? '(no output)' : result.content;
+  const stdoutHtml = stdout || !stderr ? renderToolResult(stdout || emptyOutput) : '';
+  const stderrHtml = stderr
+    ? `
+          <div class="tool-stderr">
+            <div class="tool-stderr-label"><i class="bi bi-exclamation-triangle"></i> stderr</div>
+            <pre class="tool-result stderr-output">${escapeHtml(stderr)}</pre>
+          </div>`
+    : '';
+  return `${stdoutHtml}${stderrHtml}`;
+}
+
+function renderToolStatusBadge(result: ToolResult): string {
+  if (result.interrupted) {
+    return '<span class="tool-status-badge interrupted">Interrupted</span>';
+  }
+  if (result.exitCode !== undefined && result.exitCode !== 0) {
+    return `<span class="tool-status-badge error">Exit ${result.exitCode}</span>`;
+  }
+  if (result.isError) {
+    return '<span class="tool-status-badge error">Error</span>';
+  }
+  return '';
+}
+
+function isFailedStatus(status: ToolStatus | undefined): boolean {
+  return status === 'error' || status === 'interrupted';
+}
+
+function countToolCalls(messages: ChatMessage[], stats: ToolCallStats = createToolCallStats()): ToolCallStats {
+  for (const message of messages) {
+    for (const item of message.content) {
+      if (item.type === 'tool_use' && item.toolCall) {
+        stats.total++;
+        const changes = fileChangesForToolCall(item.toolCall);
+        if (changes.length > 0) stats.fileChanges.set(item.toolCall.id, changes);
+      }
+      if (item.type === 'tool_result' && item.toolResult && isFailedStatus(item.toolResult.status)) {
+        stats.failed++;
+        stats.fileChanges.delete(item.toolResult.toolUseId);
+      }
+    }
+  }
+  return stats;
+}
+
+// Paths inside the working directory are shown relative to it
+function displayPath(path: string, cwd: string | undefined): string {
+  return cwd && path.startsWith(`${cwd}/`) ? path.slice(cwd.length + 1) : path;
+}
+
+function renderFilesChanged(stats: ToolCallStats, cwd: string | undefined): string {
+  // Totals per file, in the order files were first touched
+  const files = new Map<string, FileChange>();
+  for (const changes of stats.fileChanges.values()) {
+    for (const change of changes) {
+      const path = displayPath(change.path, cwd);
+      const file = files.get(path);
+      if (!file) {
+        files.set(path, { ...change, path, movedTo: change.movedTo && displayPath(change.movedTo, cwd) });
+        continue;
+      }
+      file.added += change.added;
+      file.removed += change.removed;
+      if (change.movedTo) file.movedTo = displayPath(change.movedTo, cwd);
+      // A file added or rewritten earlier in the session keeps that label
+      if (change.operation === 'delete' || file.operation === 'update') file.operation = change.operation;
+    }
+  }
+  if (files.size === 0) return '';
+
+  let added = 0;
+  let removed = 0;
+  const rows = [...files.values()].map(file => {
+    added += file.added;
+    removed += file.removed;
+    return `
+          <li>
+            <span class="patch-op ${file.operation}">${FILE_OPERATION_LABELS[file.operation]}</span>
+            <span class="files-changed-path">${escapeHtml(file.path)}${file.movedTo ? ` → ${escapeHtml(file.movedTo)}` : ''}</span>
+            ${renderDiffStat(file.added, file.removed)}
+          </li>`;
+  }).join('');
+
+  return `
+      <details class="files-changed">
+        <summary>
+          <span class="files-changed-title">Files Changed</span>
+          <span>${files.size} ${files.size === 1 ? 'file' : 'files'}</span>
+          ${renderDiffStat(added, removed)}
+        </summary>
+        <ul class="files-changed-list">${rows}
+        </ul>
+      </details>`;
+}
+
 function flattenMessages(messages: ChatMessage[]): RenderMessage[] {
   const flattened: RenderMessage[] = [];
 
@@ -221,6 +471,7 @@ function flattenMessages(messages: ChatMessage[]): RenderMessage[] {
       timestamp: msg.timestamp,
       model: msg.model,
       isHarness: msg.isHarness,
+      event: msg.event,
     };
 
     const originalUsage = msg.usage;
@@ -291,14 +542,34 @@ function flattenMessages(messages: ChatMessage[]): RenderMessage[] {
   return flattened;
 }
 
-function renderContent(item: MessageContent): string {
+function renderThread(thread: ChatThread, ctx: RenderContext): string {
+  const messagesHtml = flattenMessages(thread.messages).map(msg => renderMessage(msg, ctx)).join('\n');
+  const label = thread.agentId ? `Sub-agent ${thread.agentId}` : 'Sub-agent conversation';
+  const count = thread.messages.length;
+
+  return `
+        <details class="sub-thread">
+          <summary class="sub-thread-header">
+            <i class="bi bi-diagram-3"></i>
+            <span class="sub-thread-label">${escapeHtml(label)}</span>
+            <span class="sub-thread-count">${count} ${count === 1 ? 'message' : 'messages'}</span>
+          </summary>
+          <div class="sub-thread-usage">${renderTokenUsage(thread.totalUsage, ctx.source, estimateSessionCost({ ...thread, source: ctx.source, model: ctx.model }, ctx.pricing))}</div>
+          <div class="sub-thread-messages">
+            ${messagesHtml}
+          </div>
+        </details>
+      `;
+}
+
+function renderContent(item: MessageContent, ctx: RenderContext): string {
   switch (item.type) {
     case 'text':
       if (!item.text) return '';
       return `
         <div class="message-text">
           <div class="markdown-view">
-            ${parseMarkdown(item.text)}
+            ${renderMarkdown(item.text)}
           </div>
           <pre class="plain-view">${escapeHtml(item.text)}</pre>
         </div>
@@ -309,17 +580,27 @@ function renderContent(item: MessageContent): string {
       return `
         <div class="message-text thinking-text">
           <div class="markdown-view">
-            ${parseMarkdown(item.text)}
+            ${renderMarkdown(item.text)}
           </div>
           <pre class="plain-view">${escapeHtml(item.text)}</pre>
         </div>
       `;
 
+    case 'image':
+      if (!item.image) return '';
+      return `
+        <div class="message-images">${renderImage(item.image)}</div>
+      `;
+
     case 'tool_use':
       if (!item.toolCall) return '';
       const tc = item.toolCall;
+      const readLanguage = tc.name === 'Read' && typeof tc.input.file_path === 'string'
+        ? languageForPath(tc.input.file_path)
+        : undefined;
+      if (readLanguage) ctx.readLanguages.set(tc.id, readLanguage);
       return `
-        <div class="tool-call">
+        <div class="tool-call" data-tool-id="${escapeHtml(tc.id)}">
           <div class="tool-header">
             <span class="tool-name">${escapeHtml(tc.name)}</span>
             <span class="tool-id">${escapeHtml(tc.id)}</span>
@@ -328,24 +609,28 @@ function renderContent(item: MessageContent): string {
               <span class="tool-expand-label">Expand</span>
             </button>
           </div>
-          ${renderToolInput(tc.input)}
+          ${renderToolInput(tc)}
         </div>
+        ${ctx.threadsByToolCall.has(tc.id) ? renderThread(ctx.threadsByToolCall.get(tc.id)!, ctx) : ''}
       `;
 
     case 'tool_result':
       if (!item.toolResult) return '';
       const tr = item.toolResult;
+      const resultLanguage = ctx.readLanguages.get(tr.toolUseId);
+      ctx.readLanguages.delete(tr.toolUseId);
       return `
-        <div class="tool-result-container">
+        <div class="tool-result-container${tr.status ? ` status-${tr.status}` : ''}" data-tool-id="${escapeHtml(tr.toolUseId)}"${tr.status ? ` data-tool-status="${tr.status}"` : ''}>
           <div class="tool-result-header">
             <span class="result-label">Result</span>
             <span class="tool-id">${escapeHtml(tr.toolUseId)}</span>
+            ${renderToolStatusBadge(tr)}
             <button class="tool-expand-toggle" type="button" aria-expanded="false">
               <i class="bi bi-chevron-down"></i>
               <span class="tool-expand-label">Expand</span>
             </button>
           </div>
-          ${renderToolResult(tr.content)}
+          ${renderToolResultBody(tr, resultLanguage)}
         </div>
       `;
 
@@ -354,7 +639,112 @@ function renderContent(item: MessageContent): string {
   }
 }
 
-function renderMessage(msg: RenderMessage, source?: 'claude' | 'codex' | 'gemini' | 'unknown'): string {
+export const contextLabels: Record<keyof TurnContext, string> = {
+  model: 'Model',
+  effort: 'Effort',
+  summary: 'Summary',
+  approvalPolicy: 'Approval',
+  sandboxPolicy: 'Sandbox',
+};
+
+export const interruptionLabels: Record<InterruptionEvent['kind'], { title: string; icon: string }> = {
+  interrupted: { title: 'Interrupted by user', icon: 'bi-stop-circle' },
+  aborted: { title: 'Turn aborted', icon: 'bi-x-octagon' },
+  error: { title: 'Error', icon: 'bi-exclamation-octagon' },
+};
+
+function shortCommit(hash: string): string {
+  return hash.slice(0, 7);
+}
+
+function renderCheckpointFiles(label: string, paths: string[] | undefined): string {
+  if (!paths || paths.length === 0) return '';
+  const items = paths.map(path => `<li>${escapeHtml(path)}</li>`).join('');
+  return `
+        <details class="checkpoint-files">
+          <summary>${paths.length} ${label}</summary>
+          <ul>${items}</ul>
+        </details>`;
+}
+
+function renderEvent(event: SessionEvent, msg: RenderMessage): string {
+  switch (event.type) {
+    case 'context_change': {
+      const changes = event.changed.map(key => `
+          <span class="event-change">
+            <span class="label">${contextLabels[key]}</span>
+            ${escapeHtml(event.previous[key] || 'default')} → ${escapeHtml(event.context[key] || 'default')}
+          </span>`).join('');
+      return `
+    <div class="message event context-change-event">
+      <div class="event-divider">
+        <i class="bi bi-sliders"></i>
+        <span class="event-title">Turn settings changed</span>
+        ${changes}
+        <span class="timestamp">${formatTimestamp(msg.timestamp)}</span>
+      </div>
+    </div>
+  `;
+    }
+
+    case 'checkpoint': {
+      const commit = event.commit
+        ? `<span class="event-change"><span class="label">Commit</span><span title="${escapeHtml(event.commit)}">${escapeHtml(shortCommit(event.commit))}</span></span>`
+        : '';
+      const parent = event.parentCommit
+        ? `<span class="event-change"><span class="label">On</span><span title="${escapeHtml(event.parentCommit)}">${escapeHtml(shortCommit(event.parentCommit))}</span></span>`
+        : '';
+      const files = event.files?.length === 1 ? 'file backed up' : 'files backed up';
+      return `
+    <div class="message event checkpoint-event">
+      <div class="event-divider">
+        <i class="bi bi-bookmark"></i>
+        <span class="event-title">Checkpoint</span>
+        ${commit}
+        ${parent}
+        ${renderCheckpointFiles(files, event.files)}
+        ${renderCheckpointFiles('untracked, not included', event.untrackedFiles)}
+        <span class="timestamp">${formatTimestamp(msg.timestamp)}</span>
+      </div>
+    </div>
+  `;
+    }
+
+    case 'interruption': {
+      const label = interruptionLabels[event.kind];
+      const reason = event.reason && event.reason !== event.kind
+        ? `<span class="event-change"><span class="label">Reason</span>${escapeHtml(event.reason)}</span>`
+        : '';
+      const tool = event.toolUseId
+        ? `<span class="event-change"><span class="label">Tool call</span>${escapeHtml(event.toolUseId)}</span>`
+        : '';
+      const detail = event.detail && event.kind === 'error'
+        ? `<span class="event-detail">${escapeHtml(event.detail)}</span>`
+        : '';
+      return `
+    <div class="message event interruption-event ${event.kind}">
+      <div class="event-divider">
+        <i class="bi ${label.icon}"></i>
+        <span class="event-title">${label.title}</span>
+        ${reason}
+        ${tool}
+        ${detail}
+        <span class="timestamp">${formatTimestamp(msg.timestamp)}</span>
+      </div>
+    </div>
+  `;
+    }
+
+    default:
+      return '';
+  }
+}
+
+function renderMessage(msg: RenderMessage, ctx: RenderContext): string {
+  if (msg.event) {
+    return renderEvent(msg.event, msg);
+  }
+
   const isHarness = msg.isHarness === true;
   const hasThinking = msg.content.some(item => item.type === 'thinking');
   const isToolCallMessage = msg.kind === 'tool_call';
@@ -381,10 +771,10 @@ function renderMessage(msg: RenderMessage, source?: 'claude' | 'codex' | 'gemini
           ? 'Thinking'
           : (isHarness ? 'Harness' : (msg.role === 'assistant' ? 'Assistant' : 'User')));
 
-  const contentHtml = msg.content.map(renderContent).join('\n');
+  const contentHtml = msg.content.map(item => renderContent(item, ctx)).join('\n');
 
   const usageHtml = msg.usage
-    ? `<div class="message-usage">${renderTokenUsage(msg.usage, source)}</div>`
+    ? `<div class="message-usage">${renderTokenUsage(msg.usage, ctx.source, usageCost(msg.usage, msg.model, ctx))}</div>`
     : '';
 
   const modelHtml = msg.model
@@ -393,9 +783,11 @@ function renderMessage(msg: RenderMessage, source?: 'claude' | 'codex' | 'gemini
 
   // Harness messages are hidden by default
   const hiddenClass = isHarness ? ' hidden' : '';
+  // Calls are marked failed client-side once their result is known
+  const failedClass = msg.content.some(item => isFailedStatus(item.toolResult?.status)) ? ' failed' : '';
 
   return `
-    <div class="message ${roleClass}${thinkingClass}${toolClass}${hiddenClass}">
+    <div class="message ${roleClass}${thinkingClass}${toolClass}${failedClass}${hiddenClass}" data-timestamp="${escapeHtml(msg.timestamp)}">
       <div class="message-header">
         <span class="role">${roleIcon} ${roleText}</span>
         ${modelHtml}
@@ -429,6 +821,14 @@ function darkenHex(hex: string, amount: number): string {
   return `#${darken(rgb.r).toString(16).padStart(2, '0')}${darken(rgb.g).toString(16).padStart(2, '0')}${darken(rgb.b).toString(16).padStart(2, '0')}`;
 }
 
+// Helper to lighten a hex color by mixing it with white
+function lightenHex(hex: string, amount: number): string {
+  const rgb = hexToRgb(hex);
+  if (!rgb) return hex;
+  const lighten = (c: number) => Math.min(255, Math.round(c + (255 - c) * amount));
+  return `#${lighten(rgb.r).toString(16).padStart(2, '0')}${lighten(rgb.g).toString(16).padStart(2, '0')}${lighten(rgb.b).toString(16).padStart(2, '0')}`;
+}
+
 function getStyles(theme?: ThemeConfig): string {
   // Default theme values - dark greys with high contrast
   const bgPage = theme?.bgPage || '#121212';
@@ -456,6 +856,11 @@ function getStyles(theme?: ThemeConfig): string {
   const bgCode = darkenHex(bgPage, 0.3);
   const bgCodeDark = darkenHex(bgPage, 0.5);
 
+  // Syntax highlighting palette, from the accents so it follows the theme
+  const hlString = lightenHex(accentResult, 0.25);
+  const hlFunction = lightenHex(accentTool, 0.35);
+  const hlProperty = lightenHex(accentThinking, 0.55);
+
   // Get RGB for tool backgrounds
   const toolRgb = hexToRgb(accentTool);
   const assistantRgb = hexToRgb(accentAssistant);
@@ -465,6 +870,10 @@ function getStyles(theme?: ThemeConfig): string {
   const bgToolResult = assistantRgb
     ? `rgba(${assistantRgb.r}, ${assistantRgb.g}, ${assistantRgb.b}, 0.1)`
     : 'rgba(80, 200, 120, 0.1)';
+  const resultRgb = hexToRgb(accentResult);
+  const bgDiffAdd = resultRgb
+    ? `rgba(${resultRgb.r}, ${resultRgb.g}, ${resultRgb.b}, 0.2)`
+    : 'rgba(118, 133, 74, 0.2)';
 
   return `
     :root {
@@ -496,6 +905,23 @@ function getStyles(theme?: ThemeConfig): string {
       --bg-tool-call: ${bgToolCall};
       --bg-tool-result: ${bgToolResult};
 
+      /* Diff lines */
+      --bg-diff-add: ${bgDiffAdd};
+      --bg-diff-remove: rgba(217, 83, 79, 0.2);
+
+      /* Syntax highlighting */
+      --hl-keyword: ${accentUser};
+      --hl-string: ${hlString};
+      --hl-number: ${accentAssistant};
+      --hl-type: ${accentTool};
+      --hl-function: ${hlFunction};
+      --hl-property: ${hlProperty};
+      --hl-comment: ${textMuted};
+
+      /* Warnings */
+      --accent-warning: #d9a441;
+      --accent-error: #d9534f;
+
       /* Source badges */
       --badge-claude: #c96b4a;
       --badge-codex: #5a8fba;
@@ -525,6 +951,20 @@ function getStyles(theme?: ThemeConfig): string {
       padding: 20px;
     }
 
+    /* Streamed reports write the header last; show it first anyway */
+    .container.streamed {
+      display: flex;
+      flex-direction: column;
+    }
+
+    .container.streamed > .header {
+      order: -2;
+    }
+
+    .container.streamed > .filter-bar {
+      order: -1;
+    }
+
     .header {
       background: var(--bg-secondary);
       border: 1px solid var(--border-color);
@@ -581,6 +1021,30 @@ function getStyles(theme?: ThemeConfig): string {
       grid-column: span 2;
     }
 
+    .info-item.agents {
+      grid-column: 1 / -1;
+      text-align: left;
+    }
+
+    .agent-breakdown {
+      list-style: none;
+      margin: 4px 0 0 0;
+      padding: 0;
+      display: flex;
+      flex-wrap: wrap;
+      gap: 6px 20px;
+      font-size: 0.85rem;
+    }
+
+    .agent-breakdown .agent-name {
+      font-family: var(--font-code);
+    }
+
+    .agent-breakdown .agent-stats {
+      color: var(--text-secondary);
+      margin-left: 6px;
+    }
+
     .token-summary {
       background: var(--bg-tertiary);
       border-radius: 6px;
@@ -606,260 +1070,1016 @@ function getStyles(theme?: ThemeConfig): string {
       color: var(--accent-assistant);
     }
 
-    .messages {
+    .token-stat.cost {
+      font-weight: bold;
+      color: var(--accent-tool-result);
+    }
+
+    .rate-limits {
+      margin-top: 15px;
+      background: var(--bg-tertiary);
+      border-radius: 6px;
+      padding: 12px 15px;
+      font-size: 0.85rem;
+    }
+
+    .rate-limits-title {
+      font-size: 0.8rem;
+      color: var(--text-secondary);
+      margin-bottom: 6px;
+    }
+
+    .rate-limit-windows {
+      list-style: none;
+      margin: 0 0 8px 0;
+      padding: 0;
       display: flex;
-      flex-direction: column;
-      gap: 15px;
+      flex-wrap: wrap;
+      gap: 6px 24px;
     }
 
-    .message {
-      background: var(--bg-secondary);
-      border: 1px solid var(--border-color);
-      border-radius: 8px;
-      overflow: hidden;
+    .rate-limit-windows li {
+      display: flex;
+      align-items: center;
+      gap: 8px;
     }
 
-    .message.user {
-      border-left: 4px solid var(--accent-user);
+    .rate-window {
+      font-weight: bold;
     }
 
-    .message.assistant {
-      border-left: 4px solid var(--accent-assistant);
+    .rate-reset {
+      color: var(--text-secondary);
     }
 
-    .message.harness {
-      border-left: 4px solid var(--accent-harness);
-      opacity: 0.7;
+    .rate-swatch {
+      display: inline-block;
+      width: 10px;
+      height: 10px;
+      border-radius: 2px;
     }
 
-    .message.thinking {
-      border-left: 4px dashed var(--accent-thinking);
-      opacity: 0.9;
+    .rate-swatch.primary {
+      background: var(--accent-tool);
     }
 
-    .message-header {
-      display: flex;
-      align-items: center;
-      gap: 15px;
-      padding: 12px 15px;
-      background: var(--bg-overlay-dark);
-      border-bottom: 1px solid var(--border-color);
+    .rate-swatch.secondary {
+      background: var(--accent-assistant);
     }
 
-    .message-header .role {
-      font-weight: 600;
-      font-size: 0.9rem;
-      display: flex;
-      align-items: center;
-      gap: 8px;
+    .rate-limit-chart {
+      display: block;
+      width: 100%;
+      height: auto;
+      max-height: 160px;
     }
 
-    .message-header .message-model {
-      font-family: var(--font-code);
-      font-size: 0.75rem;
-      color: var(--text-secondary);
-      background: var(--bg-tertiary);
-      padding: 2px 8px;
-      border-radius: 4px;
+    .rate-grid {
+      stroke: var(--border-color);
+      stroke-dasharray: 4 4;
+      vector-effect: non-scaling-stroke;
     }
 
-    .message-header .timestamp {
-      margin-left: auto;
-      font-size: 0.8rem;
-      color: var(--text-secondary);
+    .rate-line polyline {
+      fill: none;
+      stroke-width: 2;
+      vector-effect: non-scaling-stroke;
     }
 
-    .message-content {
-      padding: 15px;
+    .rate-line.primary polyline {
+      stroke: var(--accent-tool);
     }
 
-    .message-text {
-      word-wrap: break-word;
-      line-height: 1.5;
+    .rate-line.secondary polyline {
+      stroke: var(--accent-assistant);
     }
 
-    .message-text .plain-view {
-      white-space: pre-wrap;
-      font-family: var(--font-code);
-      font-size: 0.9rem;
-      margin: 0;
-      display: none;
+    .rate-line.primary circle {
+      fill: var(--accent-tool);
     }
 
-    .message-text p {
-      margin: 0 0 0.5em 0;
+    .rate-line.secondary circle {
+      fill: var(--accent-assistant);
     }
 
-    .message-text p:last-child {
-      margin-bottom: 0;
+    .rate-axis {
+      display: flex;
+      justify-content: space-between;
+      color: var(--text-secondary);
+      font-size: 0.75rem;
+      margin-top: 4px;
     }
 
-    .message-text h1, .message-text h2, .message-text h3 {
-      margin: 0.5em 0 0.3em 0;
-      color: var(--text-primary);
+    .rate-credits {
+      margin-top: 6px;
+      color: var(--text-secondary);
+    }
+
+    .parse-warnings {
+      margin-top: 15px;
+      padding: 10px 15px;
+      border: 1px solid var(--accent-warning);
+      border-left-width: 4px;
+      border-radius: 6px;
+      background: var(--bg-overlay-light);
+      font-size: 0.85rem;
+    }
+
+    .parse-warnings summary {
+      cursor: pointer;
+      color: var(--accent-warning);
+      font-weight: 600;
+      display: flex;
+      align-items: center;
+      gap: 8px;
+    }
+
+    .parse-warnings ul {
+      list-style: none;
+      margin: 10px 0 0 0;
+      padding: 0;
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+    }
+
+    .parse-warnings li {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 4px 12px;
+    }
+
+    .diagnostic-line {
+      font-weight: 600;
+    }
+
+    .diagnostic-error {
+      color: var(--text-secondary);
+    }
+
+    .diagnostic-snippet {
+      flex-basis: 100%;
+      font-family: var(--font-code);
+      font-size: 0.8rem;
+      background: var(--bg-code);
+      padding: 4px 8px;
+      border-radius: 4px;
+      white-space: pre-wrap;
+      word-break: break-all;
+    }
+
+    .messages {
+      display: flex;
+      flex-direction: column;
+      gap: 15px;
+    }
+
+    .message {
+      background: var(--bg-secondary);
+      border: 1px solid var(--border-color);
+      border-radius: 8px;
+      overflow: hidden;
+    }
+
+    .message.user {
+      border-left: 4px solid var(--accent-user);
+    }
+
+    .message.assistant {
+      border-left: 4px solid var(--accent-assistant);
+    }
+
+    .message.harness {
+      border-left: 4px solid var(--accent-harness);
+      opacity: 0.7;
+    }
+
+    .message.thinking {
+      border-left: 4px dashed var(--accent-thinking);
+      opacity: 0.9;
+    }
+
+    .message.event {
+      background: transparent;
+      border: none;
+      border-radius: 0;
+      overflow: visible;
+    }
+
+    .event-divider {
+      display: flex;
+      align-items: center;
+      flex-wrap: wrap;
+      gap: 6px 15px;
+      padding: 6px 12px;
+      border-top: 1px dashed var(--border-color);
+      border-bottom: 1px dashed var(--border-color);
+      font-size: 0.8rem;
+      color: var(--text-secondary);
+    }
+
+    .event-divider .event-title {
+      font-weight: 600;
+      color: var(--text-primary);
+    }
+
+    .event-divider .event-change {
+      font-family: var(--font-code);
+    }
+
+    .event-divider .event-change .label {
+      font-family: var(--font-ui);
+      margin-right: 4px;
+    }
+
+    .interruption-event .event-divider {
+      border-color: var(--accent-warning);
+    }
+
+    .interruption-event .event-divider .bi,
+    .interruption-event .event-divider .event-title {
+      color: var(--accent-warning);
+    }
+
+    .interruption-event.error .event-divider {
+      border-color: var(--accent-error);
+    }
+
+    .interruption-event.error .event-divider .bi,
+    .interruption-event.error .event-divider .event-title {
+      color: var(--accent-error);
+    }
+
+    .event-divider .event-detail {
+      font-family: var(--font-code);
+      white-space: pre-wrap;
+      word-break: break-word;
+    }
+
+    .checkpoint-files summary {
+      cursor: pointer;
+    }
+
+    .checkpoint-files ul {
+      margin: 4px 0 0 0;
+      padding-left: 18px;
+      font-family: var(--font-code);
+    }
+
+    .event-divider .timestamp {
+      margin-left: auto;
+    }
+
+    .message-header {
+      display: flex;
+      align-items: center;
+      gap: 15px;
+      padding: 12px 15px;
+      background: var(--bg-overlay-dark);
+      border-bottom: 1px solid var(--border-color);
+    }
+
+    .message-header .role {
+      font-weight: 600;
+      font-size: 0.9rem;
+      display: flex;
+      align-items: center;
+      gap: 8px;
+    }
+
+    .message-header .message-model {
+      font-family: var(--font-code);
+      font-size: 0.75rem;
+      color: var(--text-secondary);
+      background: var(--bg-tertiary);
+      padding: 2px 8px;
+      border-radius: 4px;
+    }
+
+    .message-header .timestamp {
+      margin-left: auto;
+      font-size: 0.8rem;
+      color: var(--text-secondary);
+    }
+
+    .message-content {
+      padding: 15px;
+    }
+
+    .message-text {
+      word-wrap: break-word;
+      line-height: 1.5;
+    }
+
+    .message-text .plain-view {
+      white-space: pre-wrap;
+      font-family: var(--font-code);
+      font-size: 0.9rem;
+      margin: 0;
+      display: none;
+    }
+
+    .message-text p {
+      margin: 0 0 0.5em 0;
+    }
+
+    .message-text p:last-child {
+      margin-bottom: 0;
+    }
+
+    .message-text h1, .message-text h2, .message-text h3,
+    .message-text h4, .message-text h5, .message-text h6 {
+      margin: 0.5em 0 0.3em 0;
+      color: var(--text-primary);
+    }
+
+    .message-text h1 { font-size: 1.4rem; }
+    .message-text h2 { font-size: 1.2rem; }
+    .message-text h3 { font-size: 1.1rem; }
+    .message-text h4, .message-text h5, .message-text h6 { font-size: 1rem; }
+
+    .message-text ul, .message-text ol {
+      margin: 0 0 0.5em 0;
+      padding-left: 1.5em;
+    }
+
+    .message-text li {
+      margin: 0;
+    }
+
+    .message-text li > ul, .message-text li > ol {
+      margin-bottom: 0;
+    }
+
+    .message-text li > p {
+      margin-bottom: 0.3em;
+    }
+
+    .message-text .contains-task-list {
+      list-style: none;
+      padding-left: 0.5em;
+    }
+
+    .message-text .task-list-item input {
+      margin: 0 0.4em 0 0;
+      vertical-align: middle;
+    }
+
+    .message-text hr {
+      border: none;
+      border-top: 1px solid var(--border-color);
+      margin: 0.8em 0;
+    }
+
+    .message-text del {
+      color: var(--text-secondary);
+    }
+
+    .message-text .image-link::before {
+      content: "Image: ";
+      color: var(--text-secondary);
+    }
+
+    .message-text .table-wrapper {
+      overflow-x: auto;
+      margin: 0.5em 0;
+    }
+
+    .message-text table {
+      border-collapse: collapse;
+      font-size: 0.9em;
+    }
+
+    .message-text th, .message-text td {
+      border: 1px solid var(--border-color);
+      padding: 4px 10px;
+      text-align: left;
+      vertical-align: top;
+    }
+
+    .message-text th {
+      background: var(--bg-overlay-light);
+      color: var(--text-primary);
+    }
+
+    .message-text .align-center { text-align: center; }
+    .message-text .align-right { text-align: right; }
+
+    .message-text blockquote {
+      margin: 0.5em 0;
+      padding: 0.5em 1em;
+      border-left: 3px solid var(--accent-assistant);
+      background: var(--bg-overlay-light);
+      color: var(--text-secondary);
+    }
+
+    .message-text a {
+      color: var(--accent-user);
+      text-decoration: none;
+    }
+
+    .message-text a:hover {
+      text-decoration: underline;
+    }
+
+    .message-text .inline-code {
+      font-family: var(--font-code);
+      font-size: 0.9em;
+      background: var(--bg-code);
+      padding: 0.15em 0.4em;
+      border-radius: 4px;
+      color: var(--accent-tool);
+    }
+
+    .message-text .code-block {
+      font-family: var(--font-code);
+      font-size: 0.85rem;
+      background: var(--bg-code);
+      border: 1px solid var(--border-color);
+      border-radius: 6px;
+      padding: 12px;
+      margin: 0.5em 0;
+      overflow-x: auto;
+    }
+
+    .message-text .code-block code {
+      background: none;
+      padding: 0;
+    }
+
+    .message-text strong {
+      color: var(--text-primary);
+      font-weight: 600;
+    }
+
+    .message-text em {
+      font-style: italic;
+    }
+
+    .thinking-text {
+      font-style: italic;
+    }
+
+    .sub-thread {
+      margin: 10px 0;
+      border: 1px dashed var(--border-color);
+      border-left: 3px solid var(--accent-tool);
+      border-radius: 6px;
+      background: var(--bg-overlay-light);
+    }
+
+    .sub-thread-header {
+      display: flex;
+      align-items: center;
+      gap: 10px;
+      padding: 8px 12px;
+      cursor: pointer;
+      font-size: 0.85rem;
+      font-weight: 600;
+      color: var(--accent-tool);
+    }
+
+    .sub-thread-count {
+      font-weight: normal;
+      color: var(--text-secondary);
+    }
+
+    .sub-thread-usage {
+      padding: 6px 12px;
+      font-size: 0.8rem;
+      display: flex;
+      flex-wrap: wrap;
+      gap: 15px;
+      border-top: 1px solid var(--border-color);
+    }
+
+    .sub-thread-messages {
+      display: flex;
+      flex-direction: column;
+      gap: 10px;
+      padding: 10px 12px 12px;
+    }
+
+    .message-usage {
+      padding: 10px 15px;
+      background: var(--bg-overlay-light);
+      border-top: 1px solid var(--border-color);
+      font-size: 0.8rem;
+      display: flex;
+      flex-wrap: wrap;
+      gap: 15px;
+    }
+
+    .tool-call, .tool-result-container {
+      margin: 10px 0;
+      background: var(--bg-code);
+      border: 1px solid var(--border-color);
+      border-radius: 6px;
+      overflow: hidden;
+    }
+
+    .tool-call.status-success, .tool-result-container.status-success {
+      border-left: 3px solid var(--accent-tool-result);
+    }
+
+    .tool-call.status-error, .tool-result-container.status-error {
+      border-color: var(--accent-error);
+      border-left-width: 3px;
+    }
+
+    .tool-call.status-interrupted, .tool-result-container.status-interrupted {
+      border-color: var(--accent-warning);
+      border-left-width: 3px;
+    }
+
+    .tool-call.paired > .tool-result-container {
+      margin: 0;
+      border: none;
+      border-top: 1px solid var(--border-color);
+      border-radius: 0;
+    }
+
+    .message.paired-away {
+      display: none;
+    }
+
+    .tool-elapsed {
+      font-family: var(--font-code);
+      font-size: 0.7rem;
+      color: var(--text-secondary);
+      margin-left: 8px;
+    }
+
+    .tool-status-badge.missing {
+      background: var(--accent-warning);
+    }
+
+    .tool-call.no-result {
+      border-style: dashed;
+    }
+
+    .failed-count {
+      color: var(--accent-error);
+    }
+
+    .tool-header, .tool-result-header {
+      display: flex;
+      align-items: center;
+      gap: 10px;
+      padding: 8px 12px;
+      background: var(--bg-tool-call);
+      border-bottom: 1px solid var(--border-color);
+    }
+
+    .tool-result-header {
+      background: var(--bg-tool-result);
+    }
+
+    .tool-header .bi, .tool-result-header .bi {
+      font-size: 1rem;
+    }
+
+    .tool-name {
+      font-family: var(--font-code);
+      font-weight: 600;
+      color: var(--accent-tool);
+    }
+
+    .result-label {
+      font-weight: 600;
+      color: var(--accent-assistant);
+    }
+
+    .tool-id {
+      font-family: var(--font-code);
+      font-size: 0.7rem;
+      color: var(--text-secondary);
+      margin-left: 8px;
+    }
+
+    .tool-input {
+      margin: 0;
+      padding: 12px;
+      font-family: var(--font-code);
+      font-size: 0.85rem;
+      line-height: 1.5;
+      overflow-x: auto;
+      white-space: pre-wrap;
+      word-wrap: break-word;
+      color: var(--text-primary);
+      max-height: 300px;
+      overflow-y: auto;
+    }
+
+    .tool-input.tool-view {
+      white-space: normal;
+      font-family: var(--font-ui);
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+    }
+
+    .tool-view-row {
+      display: flex;
+      align-items: baseline;
+      gap: 8px;
+    }
+
+    .tool-view-label {
+      min-width: 52px;
+      font-size: 0.75rem;
+      color: var(--text-secondary);
+    }
+
+    .tool-view-row code {
+      font-family: var(--font-code);
+      color: var(--accent-tool);
+      word-break: break-all;
+    }
+
+    .tool-view-row a {
+      color: var(--accent-user);
+      word-break: break-all;
+    }
+
+    .tool-view-block {
+      margin: 0;
+      padding: 8px 10px;
+      border-radius: 4px;
+      background: var(--bg-overlay-dark);
+      font-family: var(--font-code);
+      font-size: 0.8rem;
+      white-space: pre-wrap;
+      word-wrap: break-word;
+    }
+
+    .shell-prompt {
+      color: var(--accent-tool);
+      user-select: none;
+    }
+
+    .tool-view-notes {
+      font-size: 0.75rem;
+      color: var(--text-secondary);
+    }
+
+    .tool-file-path {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      font-family: var(--font-code);
+      font-weight: 600;
+      word-break: break-all;
+    }
+
+    .tool-file-detail {
+      font-family: var(--font-ui);
+      font-weight: normal;
+      font-size: 0.75rem;
+      color: var(--text-secondary);
+    }
+
+    .tool-todos {
+      list-style: none;
+      margin: 0;
+      padding: 0;
+    }
+
+    .todo-item {
+      display: flex;
+      align-items: baseline;
+      gap: 8px;
+    }
+
+    .todo-item.completed span {
+      text-decoration: line-through;
+      color: var(--text-secondary);
+    }
+
+    .todo-item.in_progress {
+      font-weight: 600;
+    }
+
+    .patch-op {
+      display: inline-block;
+      min-width: 52px;
+      font-family: var(--font-ui);
+      font-size: 0.7rem;
+      font-weight: 600;
+    }
+
+    .patch-op.add {
+      color: var(--accent-tool-result);
+    }
+
+    .patch-op.update {
+      color: var(--accent-warning);
+    }
+
+    .patch-op.delete {
+      color: var(--accent-error);
+    }
+
+    .patch-op.write {
+      color: var(--accent-tool);
+    }
+
+    .tool-diff {
+      border: 1px solid var(--border-color);
+      border-radius: 4px;
+      overflow: hidden;
+    }
+
+    .diff-file-header {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      padding: 6px 10px;
+      background: var(--bg-overlay-dark);
+      border-bottom: 1px solid var(--border-color);
+    }
+
+    .diff-path {
+      flex: 1;
+      font-family: var(--font-code);
+      font-size: 0.8rem;
+      font-weight: 600;
+      word-break: break-all;
+    }
+
+    .diff-stat {
+      font-family: var(--font-code);
+      font-size: 0.75rem;
+      white-space: nowrap;
+    }
+
+    .diff-added {
+      color: var(--accent-tool-result);
+    }
+
+    .diff-removed {
+      color: var(--accent-error);
+    }
+
+    .diff-hunk-header {
+      padding: 2px 10px;
+      font-family: var(--font-code);
+      font-size: 0.75rem;
+      color: var(--text-secondary);
+      background: var(--bg-overlay-light);
+    }
+
+    .diff-hunk {
+      font-family: var(--font-code);
+      font-size: 0.8rem;
+      line-height: 1.45;
+    }
+
+    .diff-line {
+      padding: 0 10px;
+      white-space: pre-wrap;
+      word-wrap: break-word;
+    }
+
+    .diff-line.add {
+      background: var(--bg-diff-add);
+    }
+
+    .diff-line.remove {
+      background: var(--bg-diff-remove);
+    }
+
+    .diff-sign {
+      display: inline-block;
+      width: 1.2em;
+      color: var(--text-secondary);
+      user-select: none;
+    }
+
+    .files-changed {
+      margin-top: 15px;
+      background: var(--bg-tertiary);
+      border-radius: 6px;
+      padding: 12px 15px;
+      font-size: 0.85rem;
+    }
+
+    .files-changed summary {
+      display: flex;
+      align-items: center;
+      gap: 10px;
+      cursor: pointer;
+    }
+
+    .files-changed-title {
+      font-weight: bold;
+    }
+
+    .files-changed-list {
+      list-style: none;
+      margin: 10px 0 0 0;
+      padding: 0;
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
+    }
+
+    .files-changed-list li {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+    }
+
+    .files-changed-path {
+      flex: 1;
+      font-family: var(--font-code);
+      font-size: 0.8rem;
+      word-break: break-all;
+    }
+
+    .tool-call.expanded .tool-input,
+    .tool-result-container.expanded .tool-result {
+      max-height: none;
+    }
+
+    .tool-result {
+      margin: 0;
+      padding: 12px;
+      font-family: var(--font-code);
+      font-size: 0.85rem;
+      line-height: 1.5;
+      overflow-x: auto;
+      white-space: pre-wrap;
+      word-wrap: break-word;
+      color: var(--text-primary);
+      max-height: 400px;
+      overflow-y: auto;
+    }
+
+    .tool-result.code-output {
+      background: var(--bg-code-dark);
+      font-size: 0.8rem;
+    }
+
+    .message-images, .tool-result-images {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 8px;
+      margin: 6px 0;
+    }
+
+    .tool-result-images {
+      padding: 0 12px 12px 12px;
+    }
+
+    .tool-result-part-label {
+      padding: 6px 12px 0 12px;
+      font-size: 0.75rem;
+      color: var(--text-secondary);
+      text-transform: uppercase;
+      letter-spacing: 0.5px;
+    }
+
+    .message-image {
+      padding: 0;
+      border: 1px solid var(--border-color);
+      border-radius: 6px;
+      background: var(--bg-code);
+      cursor: zoom-in;
+      overflow: hidden;
+      line-height: 0;
+    }
+
+    .message-image img {
+      display: block;
+      max-width: 240px;
+      max-height: 180px;
+      object-fit: contain;
+    }
+
+    .message-image.remote {
+      padding: 8px 12px;
+      line-height: 1.4;
+      font-size: 0.8rem;
+      color: var(--accent-user);
+      cursor: pointer;
+      text-decoration: none;
+      word-break: break-all;
     }
 
-    .message-text h1 { font-size: 1.4rem; }
-    .message-text h2 { font-size: 1.2rem; }
-    .message-text h3 { font-size: 1.1rem; }
-
-    .message-text ul, .message-text ol {
-      margin: 0 0 0.5em 0;
-      padding-left: 1.5em;
+    .message-image.unavailable {
+      padding: 8px 12px;
+      line-height: 1.4;
+      font-size: 0.8rem;
+      color: var(--text-secondary);
+      cursor: default;
     }
 
-    .message-text li {
-      margin: 0;
+    .image-zoom {
+      position: fixed;
+      inset: 0;
+      z-index: 1000;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      background: rgba(0, 0, 0, 0.85);
+      cursor: zoom-out;
     }
 
-    .message-text li > ul, .message-text li > ol {
-      margin-bottom: 0;
+    .image-zoom[hidden] {
+      display: none;
     }
 
-    .message-text blockquote {
-      margin: 0.5em 0;
-      padding: 0.5em 1em;
-      border-left: 3px solid var(--accent-assistant);
-      background: var(--bg-overlay-light);
-      color: var(--text-secondary);
+    .image-zoom img {
+      max-width: 95vw;
+      max-height: 95vh;
+      object-fit: contain;
     }
 
-    .message-text a {
-      color: var(--accent-user);
-      text-decoration: none;
+    .line-number {
+      color: var(--text-secondary);
+      opacity: 0.7;
+      user-select: none;
     }
 
-    .message-text a:hover {
-      text-decoration: underline;
+    .hl-keyword {
+      color: var(--hl-keyword);
     }
 
-    .message-text .inline-code {
-      font-family: var(--font-code);
-      font-size: 0.9em;
-      background: var(--bg-code);
-      padding: 0.15em 0.4em;
-      border-radius: 4px;
-      color: var(--accent-tool);
+    .hl-string {
+      color: var(--hl-string);
     }
 
-    .message-text .code-block {
-      font-family: var(--font-code);
-      font-size: 0.85rem;
-      background: var(--bg-code);
-      border: 1px solid var(--border-color);
-      border-radius: 6px;
-      padding: 12px;
-      margin: 0.5em 0;
-      overflow-x: auto;
+    .hl-number, .hl-literal {
+      color: var(--hl-number);
     }
 
-    .message-text .code-block code {
-      background: none;
-      padding: 0;
+    .hl-type {
+      color: var(--hl-type);
     }
 
-    .message-text strong {
-      color: var(--text-primary);
-      font-weight: 600;
+    .hl-function {
+      color: var(--hl-function);
     }
 
-    .message-text em {
-      font-style: italic;
+    .hl-property, .hl-variable {
+      color: var(--hl-property);
     }
 
-    .thinking-text {
+    .hl-comment {
+      color: var(--hl-comment);
       font-style: italic;
     }
 
-    .message-usage {
-      padding: 10px 15px;
-      background: var(--bg-overlay-light);
-      border-top: 1px solid var(--border-color);
-      font-size: 0.8rem;
-      display: flex;
-      flex-wrap: wrap;
-      gap: 15px;
+    .hl-meta {
+      color: var(--hl-comment);
     }
 
-    .tool-call, .tool-result-container {
-      margin: 10px 0;
-      background: var(--bg-code);
-      border: 1px solid var(--border-color);
-      border-radius: 6px;
-      overflow: hidden;
+    .hl-heading {
+      color: var(--hl-keyword);
+      font-weight: 600;
     }
 
-    .tool-header, .tool-result-header {
-      display: flex;
-      align-items: center;
-      gap: 10px;
-      padding: 8px 12px;
-      background: var(--bg-tool-call);
-      border-bottom: 1px solid var(--border-color);
+    .hl-inserted {
+      color: var(--hl-string);
     }
 
-    .tool-result-header {
-      background: var(--bg-tool-result);
+    .hl-deleted {
+      color: var(--accent-error);
     }
 
-    .tool-header i, .tool-result-header i {
-      font-size: 1rem;
+    .tool-stderr {
+      border-top: 1px solid var(--accent-error);
+      background: rgba(217, 83, 79, 0.08);
     }
 
-    .tool-name {
-      font-family: var(--font-code);
+    .tool-stderr-label {
+      padding: 4px 12px;
+      font-size: 0.75rem;
       font-weight: 600;
-      color: var(--accent-tool);
+      color: var(--accent-error);
     }
 
-    .result-label {
-      font-weight: 600;
-      color: var(--accent-assistant);
+    .tool-result.stderr-output {
+      padding-top: 0;
+      color: var(--accent-error);
     }
 
-    .tool-id {
-      font-family: var(--font-code);
-      font-size: 0.7rem;
-      color: var(--text-secondary);
+    .tool-status-badge {
       margin-left: 8px;
+      padding: 1px 8px;
+      border-radius: 10px;
+      font-size: 0.7rem;
+      font-weight: 600;
+      color: #fff;
     }
 
-    .tool-input {
-      margin: 0;
-      padding: 12px;
-      font-family: var(--font-code);
-      font-size: 0.85rem;
-      line-height: 1.5;
-      overflow-x: auto;
-      white-space: pre-wrap;
-      word-wrap: break-word;
-      color: var(--text-primary);
-      max-height: 300px;
-      overflow-y: auto;
-    }
-
-    .tool-call.expanded .tool-input,
-    .tool-result-container.expanded .tool-result {
-      max-height: none;
-    }
-
-    .tool-result {
-      margin: 0;
-      padding: 12px;
-      font-family: var(--font-code);
-      font-size: 0.85rem;
-      line-height: 1.5;
-      overflow-x: auto;
-      white-space: pre-wrap;
-      word-wrap: break-word;
-      color: var(--text-primary);
-      max-height: 400px;
-      overflow-y: auto;
+    .tool-status-badge.error {
+      background: var(--accent-error);
     }
 
-    .tool-result.code-output {
-      background: var(--bg-code-dark);
-      font-size: 0.8rem;
+    .tool-status-badge.interrupted {
+      background: var(--accent-warning);
     }
 
     .tool-result.simple {
@@ -890,8 +2110,30 @@ function getStyles(theme?: ThemeConfig): string {
       color: var(--text-primary);
     }
 
-    .tool-expand-toggle i {
+    .tool-expand-toggle .bi {
+      display: inline-block;
       font-size: 0.9rem;
+      transition: transform 0.2s ease;
+    }
+
+    .tool-expand-toggle[aria-expanded="true"] .bi {
+      transform: rotate(180deg);
+    }
+
+    /* Inline icons, sized like the icon font */
+    svg.bi {
+      display: inline-block;
+      width: 1em;
+      height: 1em;
+      vertical-align: -0.125em;
+      flex-shrink: 0;
+    }
+
+    .icon-sprite {
+      position: absolute;
+      width: 0;
+      height: 0;
+      overflow: hidden;
     }
 
     /* Scrollbar styling */
@@ -1020,11 +2262,21 @@ function getStyles(theme?: ThemeConfig): string {
       border-color: var(--accent-thinking);
     }
 
+    .filter-toggle.active.interruption-toggle {
+      background: var(--accent-warning);
+      border-color: var(--accent-warning);
+    }
+
+    .filter-toggle.active.errors-toggle {
+      background: var(--accent-error);
+      border-color: var(--accent-error);
+    }
+
     .filter-toggle input {
       display: none;
     }
 
-    .filter-toggle i {
+    .filter-toggle .bi {
       font-size: 1rem;
     }
 
@@ -1058,7 +2310,7 @@ function getStyles(theme?: ThemeConfig): string {
       max-width: 300px;
     }
 
-    .search-box i {
+    .search-box .bi {
       color: var(--text-secondary);
       font-size: 0.9rem;
     }
@@ -1126,7 +2378,7 @@ function getStyles(theme?: ThemeConfig): string {
       color: var(--bg-primary);
     }
 
-    .mode-btn i {
+    .mode-btn .bi {
       font-size: 1rem;
     }
 
@@ -1159,20 +2411,56 @@ function getStyles(theme?: ThemeConfig): string {
   `;
 }
 
-export function generateHtml(session: ChatSession, theme?: ThemeConfig): string {
-  const messagesHtml = flattenMessages(session.messages).map(msg => renderMessage(msg, session.source)).join('\n');
+const ICON_FONT_ORIGIN = 'https://cdn.jsdelivr.net';
+
+function cspHash(text: string): string {
+  return `'sha256-${createHash('sha256').update(text, 'utf8').digest('base64')}'`;
+}
+
+/**
+ * Only the report's own style and script may run, allowed by hash. Images
+ * are limited to embedded data; the icon font origin is allowed only when
+ * icons are not inlined.
+ */
+function renderContentSecurityPolicy(styles: string, script: string, offline: boolean): string {
+  const directives = [
+    "default-src 'none'",
+    `style-src ${cspHash(styles)}${offline ? '' : ` ${ICON_FONT_ORIGIN}`}`,
+    `script-src ${cspHash(script)}`,
+    'img-src data:',
+    ...(offline ? [] : [`font-src ${ICON_FONT_ORIGIN}`]),
+    "base-uri 'none'",
+    "form-action 'none'",
+  ];
+  return `<meta http-equiv="Content-Security-Policy" content="${directives.join('; ')}">`;
+}
 
+function renderDocumentStart(title: string, options: HtmlOptions): string {
+  const styles = getStyles(options.theme);
+  const offline = options.offline !== false;
+  const iconFont = offline
+    ? ''
+    : `
+  <link rel="stylesheet" href="${ICON_FONT_ORIGIN}/npm/bootstrap-icons@1.11.3/font/bootstrap-icons.min.css">`;
   return `<!DOCTYPE html>
 <html lang="en">
 <head>
   <meta charset="UTF-8">
+  ${renderContentSecurityPolicy(styles, renderScript(options.pairTools === true), offline)}
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Chat Session - ${escapeHtml(session.sessionId)}</title>
-  <link rel="stylesheet" href="https://cdn.jsdelivr.net/npm/bootstrap-icons@1.11.3/font/bootstrap-icons.min.css">
-  <style>${getStyles(theme)}</style>
+  <title>${escapeHtml(title)}</title>${iconFont}
+  <style>${styles}</style>
 </head>
-<body>
-  <div class="container">
+<body>`;
+}
+
+function renderHeader(
+  session: Omit<ChatSession, 'messages'>,
+  messageCount: number,
+  toolStats: ToolCallStats,
+  cost: number | undefined,
+): string {
+  return `
     <header class="header">
       <h1>
         <span class="source-badge ${session.source}">${session.source}</span>
@@ -1197,33 +2485,75 @@ export function generateHtml(session: ChatSession, theme?: ThemeConfig): string
         </div>
         <div class="info-item">
           <span class="label">Messages</span>
-          <span class="value">${session.messages.length}</span>
+          <span class="value">${messageCount}</span>
+        </div>
+        ${toolStats.total > 0 ? `
+        <div class="info-item">
+          <span class="label">Tool Calls</span>
+          <span class="value">${toolStats.total}${toolStats.failed > 0 ? ` <span class="failed-count">(${toolStats.failed} failed)</span>` : ''}</span>
         </div>
+        ` : ''}
         ${session.gitBranch ? `
         <div class="info-item">
           <span class="label">Git Branch</span>
           <span class="value">${escapeHtml(session.gitBranch)}</span>
         </div>
         ` : ''}
-        ${session.model ? `
+        ${session.gitCommit ? `
+        <div class="info-item">
+          <span class="label">Starting Commit</span>
+          <span class="value" title="${escapeHtml(session.gitCommit)}">${escapeHtml(shortCommit(session.gitCommit))}</span>
+        </div>
+        ` : ''}
+        ${session.repositoryUrl ? `
+        <div class="info-item">
+          <span class="label">Repository</span>
+          <span class="value">${escapeHtml(session.repositoryUrl)}</span>
+        </div>
+        ` : ''}
+        ${session.models && session.models.length > 1 ? `
+        <div class="info-item">
+          <span class="label">Models</span>
+          <span class="value">${escapeHtml(session.models.join(', '))}</span>
+        </div>
+        ` : session.model ? `
         <div class="info-item">
           <span class="label">Model</span>
           <span class="value">${escapeHtml(session.model)}</span>
         </div>
         ` : ''}
+        ${session.turnContext?.effort ? `
+        <div class="info-item">
+          <span class="label">Reasoning Effort</span>
+          <span class="value">${escapeHtml(session.turnContext.effort)}</span>
+        </div>
+        ` : ''}
+        ${session.turnContext?.approvalPolicy || session.turnContext?.sandboxPolicy ? `
+        <div class="info-item">
+          <span class="label">Approval / Sandbox</span>
+          <span class="value">${escapeHtml(session.turnContext.approvalPolicy || '-')} / ${escapeHtml(session.turnContext.sandboxPolicy || '-')}</span>
+        </div>
+        ` : ''}
         ${session.agentId ? `
         <div class="info-item">
           <span class="label">Agent ID</span>
           <span class="value">${escapeHtml(session.agentId)}</span>
         </div>
         ` : ''}
+        ${renderAgentBreakdown(session)}
       </div>
       <div class="token-summary">
         <strong>Total Tokens:</strong>
-        ${renderTokenUsage(session.totalUsage, session.source)}
+        ${renderTokenUsage(session.totalUsage, session.source, cost, true)}
       </div>
-    </header>
+      ${renderFilesChanged(toolStats, session.cwd)}
+      ${renderRateLimits(session)}
+      ${renderDiagnostics(session)}
+    </header>`;
+}
 
+function renderFilterBar(pairTools: boolean): string {
+  return `
     <div class="filter-bar">
       <div class="filter-toggles">
         <label class="filter-toggle user-toggle active" data-filter="user">
@@ -1256,8 +2586,21 @@ export function generateHtml(session: ChatSession, theme?: ThemeConfig): string
           <i class="bi bi-lightbulb"></i>
           <span>Thinking</span>
         </label>
+        <label class="filter-toggle interruption-toggle active" data-filter="interruption">
+          <input type="checkbox" checked>
+          <i class="bi bi-stop-circle"></i>
+          <span>Interruptions</span>
+        </label>
+        <label class="filter-toggle errors-toggle" data-filter="errors-only">
+          <input type="checkbox">
+          <i class="bi bi-exclamation-octagon"></i>
+          <span>Errors only</span>
+        </label>
       </div>
       <div class="search-group">
+        <button class="mode-btn${pairTools ? ' active' : ''}" id="pair-toggle" title="Pair tool calls with their results">
+          <i class="bi bi-link-45deg"></i>
+        </button>
         <button class="mode-btn active" id="markdown-toggle" title="Toggle Markdown view">
           <i class="bi bi-markdown"></i>
         </button>
@@ -1271,14 +2614,23 @@ export function generateHtml(session: ChatSession, theme?: ThemeConfig): string
           <button class="nav-btn" id="scroll-bottom" title="Scroll to bottom"><i class="bi bi-chevron-down"></i></button>
         </div>
       </div>
-    </div>
+    </div>`;
+}
 
-    <main class="messages">
-      ${messagesHtml}
-    </main>
+function renderDocumentEnd(pairTools: boolean, iconSprite = ''): string {
+  return `
+  <div class="image-zoom" id="image-zoom" hidden>
+    <img alt="">
   </div>
+  ${iconSprite}
+  <script>${renderScript(pairTools)}</script>
+</body>
+</html>`;
+}
 
-  <script>
+// Client script; its hash is part of the Content-Security-Policy
+function renderScript(pairTools: boolean): string {
+  return `
     (function() {
       const filters = {
         user: true,
@@ -1286,7 +2638,9 @@ export function generateHtml(session: ChatSession, theme?: ThemeConfig): string
         'tool-call': true,
         'tool-result': true,
         harness: false,
-        thinking: false
+        thinking: false,
+        interruption: true,
+        'errors-only': false
       };
       let searchTerm = '';
 
@@ -1314,10 +2668,13 @@ export function generateHtml(session: ChatSession, theme?: ThemeConfig): string
           const isThinking = el.classList.contains('thinking');
           const isToolCallMessage = el.classList.contains('tool-call-message');
           const isToolResultMessage = el.classList.contains('tool-result-message');
+          const isInterruption = el.classList.contains('interruption-event');
 
           // Check type filter
           let typeVisible = true;
-          if (isToolCallMessage) {
+          if (isInterruption) {
+            typeVisible = filters.interruption;
+          } else if (isToolCallMessage) {
             typeVisible = filters['tool-call'];
           } else if (isToolResultMessage) {
             typeVisible = filters['tool-result'];
@@ -1331,6 +2688,11 @@ export function generateHtml(session: ChatSession, theme?: ThemeConfig): string
             typeVisible = filters.assistant;
           }
 
+          // Errors only: failed tool calls/results and interruption markers
+          if (filters['errors-only'] && !el.classList.contains('failed') && !isInterruption) {
+            typeVisible = false;
+          }
+
           // Check search filter
           let searchVisible = true;
           if (term) {
@@ -1349,10 +2711,16 @@ export function generateHtml(session: ChatSession, theme?: ThemeConfig): string
           el.classList.toggle('hidden', !filters['tool-call']);
         });
 
+        // A paired result sits in the card of its call, so it follows the
+        // Tool Results filter itself rather than through its message
         document.querySelectorAll('.tool-result-container').forEach(function(el) {
+          const inPairedCall = el.parentElement && el.parentElement.closest('.tool-call.paired');
           const container = el.closest('.message');
           const isTopLevelToolMessage = container && (container.classList.contains('tool-call-message') || container.classList.contains('tool-result-message'));
-          if (isTopLevelToolMessage) return;
+          if (isTopLevelToolMessage && !inPairedCall) {
+            el.classList.remove('hidden');
+            return;
+          }
           el.classList.toggle('hidden', !filters['tool-result']);
         });
       }
@@ -1418,6 +2786,26 @@ export function generateHtml(session: ChatSession, theme?: ThemeConfig): string
         }
       });
 
+      // Image thumbnails open full size; a click or Escape closes them
+      const imageZoom = document.getElementById('image-zoom');
+      const zoomedImage = imageZoom.querySelector('img');
+      document.addEventListener('click', function(e) {
+        const thumb = e.target.closest('.message-image');
+        if (!thumb || !thumb.querySelector('img')) return;
+        const img = thumb.querySelector('img');
+        zoomedImage.src = img.src;
+        zoomedImage.alt = img.alt;
+        imageZoom.hidden = false;
+      });
+      imageZoom.addEventListener('click', function() {
+        imageZoom.hidden = true;
+      });
+      document.addEventListener('keydown', function(e) {
+        if (e.key === 'Escape' && !imageZoom.hidden) {
+          imageZoom.hidden = true;
+        }
+      });
+
       // Update sticky state on scroll
       window.addEventListener('scroll', updateStickyState);
 
@@ -1431,8 +2819,9 @@ export function generateHtml(session: ChatSession, theme?: ThemeConfig): string
       });
 
       // Tool expand/collapse
-      function setupExpandToggles() {
-        document.querySelectorAll('.tool-expand-toggle').forEach(function(btn) {
+      function setupExpandToggles(root) {
+        root.querySelectorAll('.tool-expand-toggle').forEach(function(btn) {
+          if (btn.getAttribute('data-ready')) return;
           var container = btn.closest('.tool-call, .tool-result-container');
           if (!container) return;
 
@@ -1442,6 +2831,11 @@ export function generateHtml(session: ChatSession, theme?: ThemeConfig): string
             return;
           }
 
+          // Content inside a collapsed sub-thread has no layout yet; it is
+          // set up when the thread is opened
+          if (btn.closest('details:not([open])')) return;
+          btn.setAttribute('data-ready', 'true');
+
           // Only show expand button when content actually overflows
           var needsExpand = content.scrollHeight > content.clientHeight + 1;
           if (!needsExpand) {
@@ -1454,12 +2848,7 @@ export function generateHtml(session: ChatSession, theme?: ThemeConfig): string
             var expanded = container.classList.toggle('expanded');
             btn.setAttribute('aria-expanded', expanded ? 'true' : 'false');
 
-            var icon = btn.querySelector('i');
             var label = btn.querySelector('.tool-expand-label');
-            if (icon) {
-              icon.classList.toggle('bi-chevron-down', !expanded);
-              icon.classList.toggle('bi-chevron-up', expanded);
-            }
             if (label) {
               label.textContent = expanded ? 'Collapse' : 'Expand';
             }
@@ -1467,19 +2856,217 @@ export function generateHtml(session: ChatSession, theme?: ThemeConfig): string
         });
       }
 
+      var pairTools = ${pairTools ? 'true' : 'false'};
+      var toolPairs = [];
+
+      function formatElapsed(ms) {
+        if (ms < 1000) return ms + 'ms';
+        if (ms < 60000) return (ms / 1000).toFixed(1) + 's';
+        return Math.floor(ms / 60000) + 'm ' + Math.round((ms % 60000) / 1000) + 's';
+      }
+
+      function addBadge(header, className, text) {
+        var badge = document.createElement('span');
+        badge.className = className;
+        badge.textContent = text;
+        var toggle = header.querySelector('.tool-expand-toggle');
+        header.insertBefore(badge, toggle);
+      }
+
+      // Link each tool call with its result, which may be rendered much
+      // later (or in a different message): color the call by the outcome,
+      // show the time it took, and flag calls that never got a result
+      function linkToolCalls() {
+        var calls = {};
+        document.querySelectorAll('.tool-call[data-tool-id]').forEach(function(el) {
+          calls[el.getAttribute('data-tool-id')] = el;
+        });
+
+        var answered = {};
+        document.querySelectorAll('.tool-result-container[data-tool-id]').forEach(function(result) {
+          var id = result.getAttribute('data-tool-id');
+          var call = calls[id];
+          if (!call) return;
+          answered[id] = true;
+
+          var status = result.getAttribute('data-tool-status');
+          var callMessage = call.closest('.message');
+          var resultMessage = result.closest('.message');
+          if (status) {
+            call.classList.add('status-' + status);
+            if (status !== 'success' && callMessage) callMessage.classList.add('failed');
+          }
+
+          var start = callMessage && Date.parse(callMessage.getAttribute('data-timestamp'));
+          var end = resultMessage && Date.parse(resultMessage.getAttribute('data-timestamp'));
+          if (start && end && end > start) {
+            addBadge(result.querySelector('.tool-result-header'), 'tool-elapsed', formatElapsed(end - start));
+          }
+
+          toolPairs.push({
+            call: call,
+            result: result,
+            message: resultMessage,
+            parent: result.parentNode,
+            next: result.nextSibling
+          });
+        });
+
+        Object.keys(calls).forEach(function(id) {
+          if (answered[id]) return;
+          calls[id].classList.add('no-result');
+          addBadge(calls[id].querySelector('.tool-header'), 'tool-status-badge missing', 'No result');
+        });
+      }
+
+      // Move results into their call's card, or back to where they were
+      // rendered. Result messages left empty are hidden while paired.
+      function applyPairing() {
+        toolPairs.forEach(function(pair) {
+          if (pairTools) {
+            pair.call.appendChild(pair.result);
+            pair.call.classList.add('paired');
+          } else {
+            pair.parent.insertBefore(pair.result, pair.next);
+            pair.call.classList.remove('paired');
+          }
+          if (pair.message && pair.message.classList.contains('tool-result-message')) {
+            pair.message.classList.toggle('paired-away', pairTools);
+          }
+        });
+        applyFilters();
+      }
+
+      var pairToggle = document.getElementById('pair-toggle');
+      if (pairToggle) {
+        pairToggle.addEventListener('click', function(e) {
+          e.preventDefault();
+          pairTools = !pairTools;
+          pairToggle.classList.toggle('active', pairTools);
+          applyPairing();
+        });
+      }
+
+      document.querySelectorAll('details.sub-thread').forEach(function(details) {
+        details.addEventListener('toggle', function() {
+          if (details.open) setupExpandToggles(details);
+        });
+      });
+
       if (document.readyState === 'complete') {
-        setupExpandToggles();
+        setupExpandToggles(document);
         updateStickyState();
       } else {
         window.addEventListener('load', function() {
-          setupExpandToggles();
+          setupExpandToggles(document);
           updateStickyState();
         });
       }
 
+      linkToolCalls();
+      applyPairing();
       applyMarkdownMode();
     })();
-  </script>
-</body>
-</html>`;
+  `;
+}
+
+function createRenderContext(
+  source: SessionSource,
+  pricing: PriceTable = DEFAULT_PRICES,
+  model?: string,
+  threads?: ChatThread[],
+): RenderContext {
+  const threadsByToolCall = new Map<string, ChatThread>();
+  for (const thread of threads || []) {
+    if (thread.parentToolCallId) {
+      threadsByToolCall.set(thread.parentToolCallId, thread);
+    }
+  }
+  return { source, threadsByToolCall, pricing, model, readLanguages: new Map() };
+}
+
+export function generateHtml(session: ChatSession, options: HtmlOptions = {}): string {
+  const ctx = createRenderContext(session.source, options.pricing, session.model, session.threads);
+  const toolStats = countToolCalls(session.messages);
+  for (const thread of session.threads || []) {
+    countToolCalls(thread.messages, toolStats);
+  }
+  const messagesHtml = flattenMessages(session.messages).map(msg => renderMessage(msg, ctx)).join('\n');
+
+  // Threads whose spawning call could not be found go after the main thread
+  const unlinkedThreadsHtml = (session.threads || [])
+    .filter(thread => !thread.parentToolCallId || !ctx.threadsByToolCall.has(thread.parentToolCallId))
+    .map(thread => renderThread(thread, ctx))
+    .join('\n');
+
+  const html = `${renderDocumentStart(`Chat Session - ${session.sessionId}`, options)}
+  <div class="container">
+    ${renderHeader(session, session.messages.length, toolStats, estimateSessionCost(session, ctx.pricing))}
+    ${renderFilterBar(options.pairTools === true)}
+
+    <main class="messages">
+      ${messagesHtml}
+      ${unlinkedThreadsHtml}
+    </main>
+  </div>`;
+  if (options.offline === false) {
+    return `${html}${renderDocumentEnd(options.pairTools === true)}`;
+  }
+  const icons = new Set<string>();
+  const body = inlineIcons(html, icons);
+  return `${body}${renderDocumentEnd(options.pairTools === true, renderIconSprite(icons))}`;
+}
+
+// Waits for the stream to drain when its buffer is full
+export async function writeChunk(output: NodeJS.WritableStream, chunk: string): Promise<void> {
+  if (!output.write(chunk)) {
+    await once(output, 'drain');
+  }
+}
+
+/**
+ * Stream an HTML report to `output` as messages are produced, so memory use
+ * does not grow with the size of the session. The header depends on totals
+ * that are only known at the end, so it is written after the messages and
+ * moved to the top with CSS. Returns the session summary from the parser.
+ */
+export async function writeHtmlStream(
+  output: NodeJS.WritableStream,
+  messages: AsyncGenerator<ChatMessage, SessionSummary>,
+  source: SessionSource,
+  options: HtmlOptions = {},
+): Promise<SessionSummary> {
+  // Icons used in each chunk are collected for the sprite at the end
+  const offline = options.offline !== false;
+  const icons = new Set<string>();
+  const write = (chunk: string) => writeChunk(output, offline ? inlineIcons(chunk, icons) : chunk);
+
+  await write(`${renderDocumentStart('Chat Session', options)}
+  <div class="container streamed">
+    <main class="messages">`);
+
+  // The session model is only known at the end, so streamed messages are
+  // priced by their own model
+  const ctx = createRenderContext(source, options.pricing);
+  const toolStats = createToolCallStats();
+  const cost = new CostTally(source, ctx.pricing);
+
+  let result = await messages.next();
+  while (!result.done) {
+    countToolCalls([result.value], toolStats);
+    cost.add([result.value]);
+    const html = flattenMessages([result.value]).map(msg => renderMessage(msg, ctx)).join('\n');
+    await write(html);
+    result = await messages.next();
+  }
+
+  const summary = result.value;
+  await write(`
+    </main>
+    ${renderHeader(summary, summary.messageCount, toolStats, cost.total(summary.totalUsage, summary.model))}
+    ${renderFilterBar(options.pairTools === true)}
+  </div>`);
+  await writeChunk(output, renderDocumentEnd(options.pairTools === true, offline ? renderIconSprite(icons) : ''));
+
+  return summary;
 }
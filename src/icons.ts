@@ -0,0 +1,65 @@
+/**
+ * Inline SVG versions of the Bootstrap Icons used in reports, so a report
+ * makes no external requests. Markup keeps the icon font's
+ * `<i class="bi bi-name"></i>` form; `inlineIcons` swaps those elements for
+ * references to symbols, and `renderIconSprite` defines the symbols that
+ * were used. All icons are drawn on a 16x16 grid with 1.5px strokes.
+ */
+
+const OCTAGON = 'M5.5 1.5h5l4 4v5l-4 4h-5l-4-4v-5z';
+
+const ICONS: Record<string, string> = {
+  'arrow-right-square': '<rect x="2" y="2" width="12" height="12" rx="2"/><path d="M5 8h6M8.5 5.5 11 8l-2.5 2.5"/>',
+  'bookmark': '<path d="M4 2h8v12l-4-3-4 3z"/>',
+  'box-arrow-right': '<path d="M9 3H3v10h6M7 8h7M11.5 5.5 14 8l-2.5 2.5"/>',
+  'check-square': '<rect x="2" y="2" width="12" height="12" rx="2"/><path d="m5 8.5 2 2 4-4.5"/>',
+  'chevron-down': '<path d="M3.5 6 8 10.5 12.5 6"/>',
+  'chevron-up': '<path d="M3.5 10 8 5.5 12.5 10"/>',
+  'diagram-3': '<rect x="6" y="1.5" width="4" height="3" rx=".5"/><path d="M8 4.5v3M3 7.5h10M3 7.5v2M8 7.5v2M13 7.5v2"/>'
+    + '<rect x="1.5" y="9.5" width="3" height="3" rx=".5"/><rect x="6.5" y="9.5" width="3" height="3" rx=".5"/><rect x="11.5" y="9.5" width="3" height="3" rx=".5"/>',
+  'exclamation-octagon': `<path d="${OCTAGON}"/><path d="M8 4.5V9"/><circle cx="8" cy="11.5" r=".75" fill="currentColor" stroke="none"/>`,
+  'exclamation-triangle': '<path d="M8 1.8 15 14H1z"/><path d="M8 6v4"/><circle cx="8" cy="12" r=".75" fill="currentColor" stroke="none"/>',
+  'file-earmark-text': '<path d="M3 1.5h6l4 4v9H3z"/><path d="M9 1.5v4h4M5.5 8.5h5M5.5 11h5"/>',
+  'gear': '<circle cx="8" cy="8" r="2"/><circle cx="8" cy="8" r="4.5"/>'
+    + '<path d="M8 1v2M8 13v2M1 8h2M13 8h2M3.1 3.1l1.4 1.4M11.5 11.5l1.4 1.4M3.1 12.9l1.4-1.4M11.5 4.5l1.4-1.4"/>',
+  'image': '<rect x="1.5" y="2.5" width="13" height="11" rx="1.5"/><circle cx="5" cy="6" r="1.25"/><path d="m1.5 11.5 4-4 3 3 2-2 4 4"/>',
+  'lightbulb': '<path d="M8 1.5a4.5 4.5 0 0 0-2.5 8.2V11h5V9.7A4.5 4.5 0 0 0 8 1.5zM6 13.5h4"/>',
+  'link-45deg': '<path d="m6.5 9.5 3-3M7 4.5l1.3-1.3a2.5 2.5 0 0 1 3.5 3.5L10.5 8M9 11.5l-1.3 1.3a2.5 2.5 0 0 1-3.5-3.5L5.5 8"/>',
+  'markdown': '<rect x="1" y="3" width="14" height="10" rx="1.5"/><path d="M3.5 10.5v-5l2 2.5 2-2.5v5M11.5 5.5v5M9.5 8.5l2 2 2-2"/>',
+  'person': '<circle cx="8" cy="5" r="3"/><path d="M2.5 14.5a5.5 5.5 0 0 1 11 0"/>',
+  'robot': '<rect x="2.5" y="5" width="11" height="8.5" rx="2"/><path d="M8 5V2.5M6 11.5h4M1 8.5v2M15 8.5v2"/>'
+    + '<circle cx="6" cy="8.5" r="1" fill="currentColor" stroke="none"/><circle cx="10" cy="8.5" r="1" fill="currentColor" stroke="none"/>',
+  'search': '<circle cx="7" cy="7" r="4.5"/><path d="M10.5 10.5 14 14"/>',
+  'sliders': '<path d="M2 4h7M12 4h2M2 8h2M7 8h7M2 12h8M13 12h1"/><circle cx="10.5" cy="4" r="1.5"/><circle cx="5.5" cy="8" r="1.5"/><circle cx="11.5" cy="12" r="1.5"/>',
+  'square': '<rect x="2" y="2" width="12" height="12" rx="2"/>',
+  'stop-circle': '<circle cx="8" cy="8" r="6.5"/><rect x="5.75" y="5.75" width="4.5" height="4.5" fill="currentColor" stroke="none"/>',
+  'wrench': '<path d="M10.5 1.8a3.5 3.5 0 0 0-3.3 4.6L2 11.6A1.4 1.4 0 0 0 4 13.6l5.2-5.2a3.5 3.5 0 0 0 4.6-3.3l-2 2-2.2-.5-.5-2.2z"/>',
+  'x': '<path d="m4 4 8 8m0-8-8 8"/>',
+  'x-octagon': `<path d="${OCTAGON}"/><path d="m5.75 5.75 4.5 4.5m0-4.5-4.5 4.5"/>`,
+};
+
+// Set on each symbol, as a <use> instance does not inherit from the sprite
+const SYMBOL_STYLE = 'fill="none" stroke="currentColor" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round"';
+
+const ICON_ELEMENT = /<i class="bi bi-([\w-]+)"><\/i>/g;
+
+/**
+ * Replace icon font elements in `html` with references to inline symbols,
+ * adding the names of the icons used to `used`. Icons without an inline
+ * version are left as they are.
+ */
+export function inlineIcons(html: string, used: Set<string>): string {
+  return html.replace(ICON_ELEMENT, (element, name: string) => {
+    if (!ICONS[name]) return element;
+    used.add(name);
+    return `<svg class="bi bi-${name}" aria-hidden="true"><use href="#bi-${name}"></use></svg>`;
+  });
+}
+
+// Hidden SVG defining a symbol for each icon used
+export function renderIconSprite(used: Set<string>): string {
+  const symbols = [...used].sort().map(name =>
+    `<symbol id="bi-${name}" viewBox="0 0 16 16" ${SYMBOL_STYLE}>${ICONS[name]}</symbol>`
+  ).join('');
+  return `<svg class="icon-sprite" aria-hidden="true">${symbols}</svg>`;
+}
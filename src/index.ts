@@ -1,23 +1,53 @@
 #!/usr/bin/env node
 
-import { readFileSync, writeFileSync, existsSync, mkdirSync, statSync } from 'fs';
+import {
+  readFileSync,
+  writeFileSync,
+  existsSync,
+  mkdirSync,
+  statSync,
+  rmSync,
+  createReadStream,
+  createWriteStream,
+} from 'fs';
+import { once } from 'events';
 import { basename, dirname, join, resolve } from 'path';
-import { parseFile } from './parsers/index.js';
-import { generateHtml } from './html-generator.js';
-import { ParseOptions, ThemeConfig, getTotalTokens } from './types.js';
+import { ClaudeParser, DetectionResult, detectFormat, getFormats } from './parsers/index.js';
+import { HtmlOptions, generateHtml, writeHtmlStream } from './html-generator.js';
+import { MarkdownOptions, generateMarkdown, writeMarkdownStream } from './markdown-generator.js';
+import { expandInputs, groupSessionFiles, readHead } from './session-files.js';
+import { CostTally, DEFAULT_PRICES, estimateSessionCost, formatCost, loadPriceTable } from './pricing.js';
+import { DEFAULT_REDACTION_RULES, RedactionRule, Redactor, loadRedactionRules } from './redact.js';
+import { ChatSession, ParseOptions, SessionFormat, SessionSummary, ThemeConfig, getTotalTokens } from './types.js';
 
 function showUsage(): void {
   console.log(`
 chat-to-html - Convert AI chat session logs to HTML reports
 
 Usage:
-  chat-to-html <file1.jsonl> [file2.jsonl] ...
+  chat-to-html <file1.jsonl|file1.json|session-dir> [file2.jsonl] ...
 
 Options:
   -h, --help             Show this help message
   -o, --output           Output directory (default: same as input file)
   --output-file          Explicit output file path (mutually exclusive with -o/--output)
   --no-identify-harness  Disable harness message detection (enabled by default)
+  --strict               Fail on the first malformed JSONL line instead of skipping it
+  --stream               Parse and write the report incrementally with bounded memory
+                         (automatic for files over 64 MB)
+  --no-merge-agents      Don't merge Claude sub-agent logs (agent-*.jsonl) into their parent session
+  --format <name>        Force a parser instead of detecting the format (${getFormats().join(', ')})
+  --pair-tools           Show each tool result inside the card of its call (toggleable in the report)
+  --redact               Replace API keys, tokens, private keys and email addresses with placeholders
+  --redact-rules <file>  JSON file of extra redaction patterns, keyed by rule name (implies --redact)
+  --output-format <fmt>  Report format: html (default) or md for a Markdown transcript
+                         (not --format, which selects the input parser)
+  --include-harness      Include harness messages in a Markdown transcript (hidden by default,
+                         as in the HTML filter bar)
+  --include-thinking     Include thinking and reasoning in a Markdown transcript (hidden by default)
+  --cdn-icons            Load icons from the Bootstrap Icons CDN instead of inlining them as SVG
+  --pricing <file>       JSON price table (USD per million tokens, keyed by model name or prefix)
+                         merged over the built-in prices used for cost estimates
 
 Theme options (hex colors, e.g. "#1a1a2e"):
   --bg-page            Page background
@@ -40,25 +70,112 @@ Font options:
 Examples:
   chat-to-html session.jsonl
   chat-to-html session1.jsonl session2.jsonl
+  chat-to-html checkpoint-my-feature.json
   chat-to-html -o ./output session.jsonl
   chat-to-html --output-file ./report.html session.jsonl
   chat-to-html --no-identify-harness codex-session.jsonl
+  chat-to-html --format codex rollout.jsonl
+  chat-to-html --pricing ./prices.json session.jsonl
+  chat-to-html --redact-rules ./redact.json session.jsonl
+  chat-to-html --output-format md --include-thinking session.jsonl
+  chat-to-html ~/.claude/projects/my-project/
   chat-to-html --bg-page "#0B1220" --accent-user "#38BDF8" session.jsonl
 
 Supported formats:
   - Claude Code JSONL files
   - OpenAI Codex JSONL files
-  - (Coming soon) Google Gemini
+  - Google Gemini CLI saved chat / checkpoint JSON files
 `);
 }
 
-function processFile(
+// Files larger than this are parsed and rendered as streams
+const STREAM_THRESHOLD_BYTES = 64 * 1024 * 1024;
+
+// Bytes read from the start of a streamed file for format detection
+const DETECTION_HEAD_BYTES = 1024 * 1024;
+
+function logDetection(detection: DetectionResult): void {
+  const confidence = `${Math.round(detection.confidence * 100)}%`;
+  console.log(
+    detection.forced
+      ? `  Format: ${detection.format} (forced, ${confidence} match)`
+      : `  Format: ${detection.format} (detected, ${confidence} confidence)`,
+  );
+}
+
+function logSummary(summary: SessionSummary, cost: number | undefined): void {
+  console.log(`  Source: ${summary.source}`);
+  console.log(`  Session ID: ${summary.sessionId}`);
+  console.log(`  Messages: ${summary.messageCount}`);
+  console.log(`  Total tokens: ${getTotalTokens(summary.totalUsage, summary.source)}`);
+  if (cost !== undefined) {
+    console.log(`  Estimated cost: ${formatCost(cost)} (${(summary.models || [summary.model]).join(', ')})`);
+  } else if (summary.model) {
+    console.log(`  Estimated cost: unknown (no price for ${summary.model})`);
+  }
+  if (summary.diagnostics && summary.diagnostics.length > 0) {
+    console.warn(`  Warning: skipped ${summary.diagnostics.length} malformed line(s):`);
+    for (const d of summary.diagnostics) {
+      console.warn(`    ${d.file ? `${d.file}, ` : ''}line ${d.line}: ${d.error}`);
+    }
+  }
+}
+
+function logRedactions(redactor: Redactor): void {
+  const counts = redactor.getSummary();
+  if (counts.length === 0) {
+    console.log('  Redacted: nothing matched');
+    return;
+  }
+  const total = counts.reduce((sum, count) => sum + count.occurrences, 0);
+  console.log(`  Redacted: ${total} occurrence(s)`);
+  for (const count of counts) {
+    console.log(`    ${count.rule}: ${count.occurrences} occurrence(s) of ${count.values} value(s)`);
+  }
+}
+
+async function streamFile(
+  inputPath: string,
+  outputPath: string,
+  options?: ParseOptions,
+  htmlOptions: HtmlOptions = {},
+  redactor?: Redactor,
+  markdownOptions?: MarkdownOptions,
+): Promise<void> {
+  const detection = detectFormat(readHead(inputPath, DETECTION_HEAD_BYTES), options?.format);
+  logDetection(detection);
+
+  const output = createWriteStream(outputPath);
+  try {
+    const parsed = detection.parser.parseStream(createReadStream(inputPath), options);
+    const cost = new CostTally(detection.format, htmlOptions.pricing || DEFAULT_PRICES);
+    const messages = cost.track(redactor ? redactor.redactStream(parsed) : parsed);
+    const summary = markdownOptions
+      ? await writeMarkdownStream(output, messages, detection.format, markdownOptions)
+      : await writeHtmlStream(output, messages, detection.format, htmlOptions);
+    output.end();
+    await once(output, 'finish');
+    logSummary(summary, cost.total(summary.totalUsage, summary.model));
+    if (redactor) logRedactions(redactor);
+  } catch (err) {
+    // Don't leave a truncated report behind
+    output.destroy();
+    rmSync(outputPath, { force: true });
+    throw err;
+  }
+}
+
+async function processFile(
   inputPath: string,
   outputDir?: string,
   outputFile?: string,
   options?: ParseOptions,
-  theme?: ThemeConfig,
-): boolean {
+  htmlOptions: HtmlOptions = {},
+  stream?: boolean,
+  agentPaths: string[] = [],
+  redactionRules?: RedactionRule[],
+  markdownOptions?: MarkdownOptions,
+): Promise<boolean> {
   console.log(`Processing: ${inputPath}`);
 
   if (!existsSync(inputPath)) {
@@ -67,21 +184,11 @@ function processFile(
   }
 
   try {
-    const content = readFileSync(inputPath, 'utf-8');
-    const session = parseFile(content, options);
-
-    console.log(`  Source: ${session.source}`);
-    console.log(`  Session ID: ${session.sessionId}`);
-    console.log(`  Messages: ${session.messages.length}`);
-    console.log(`  Total tokens: ${getTotalTokens(session.totalUsage, session.source)}`);
-
-    const html = generateHtml(session, theme);
-
     // Generate output filename
-    const inputBasename = basename(inputPath, '.jsonl');
+    const inputBasename = basename(inputPath).replace(/\.jsonl?$/, '');
     const defaultOutputPath = join(
       outputDir || dirname(inputPath),
-      `${inputBasename}.html`,
+      `${inputBasename}.${markdownOptions ? 'md' : 'html'}`,
     );
 
     const finalOutputPath = outputFile || defaultOutputPath;
@@ -110,7 +217,47 @@ function processFile(
       }
     }
 
-    writeFileSync(finalOutputPath, html);
+    // Placeholders are numbered per report
+    const redactor = redactionRules ? new Redactor(redactionRules) : undefined;
+
+    if (stream || statSync(inputPath).size > STREAM_THRESHOLD_BYTES) {
+      if (agentPaths.length > 0) {
+        console.warn(`  Warning: ${agentPaths.length} sub-agent log(s) are not merged when streaming`);
+      }
+      await streamFile(inputPath, finalOutputPath, options, htmlOptions, redactor, markdownOptions);
+    } else {
+      const content = readFileSync(inputPath, 'utf-8');
+      const detection = detectFormat(content, options?.format);
+      logDetection(detection);
+
+      let session: ChatSession;
+      if (agentPaths.length > 0 && detection.parser instanceof ClaudeParser) {
+        for (const agentPath of agentPaths) {
+          console.log(`  Merging sub-agent log: ${agentPath}`);
+        }
+        const files = [inputPath, ...agentPaths].map(path => ({
+          name: basename(path),
+          content: path === inputPath ? content : readFileSync(path, 'utf-8'),
+        }));
+        session = detection.parser.parseMerged(files, options);
+      } else {
+        session = detection.parser.parse(content, options);
+      }
+      if (redactor) {
+        redactor.redactSession(session);
+      }
+      logSummary(
+        { ...session, messageCount: session.messages.length },
+        estimateSessionCost(session, htmlOptions.pricing || DEFAULT_PRICES),
+      );
+      if (redactor) logRedactions(redactor);
+
+      writeFileSync(
+        finalOutputPath,
+        markdownOptions ? generateMarkdown(session, markdownOptions) : generateHtml(session, htmlOptions),
+      );
+    }
+
     console.log(`  Output: ${finalOutputPath}\n`);
     return true;
   } catch (err) {
@@ -137,7 +284,7 @@ const themeFlags: Record<string, keyof ThemeConfig> = {
   '--font-code': 'fontCode',
 };
 
-function main(): void {
+async function main(): Promise<void> {
   const args = process.argv.slice(2);
 
   if (args.length === 0 || args.includes('-h') || args.includes('--help')) {
@@ -150,6 +297,18 @@ function main(): void {
   let outputDir: string | undefined;
   let outputFile: string | undefined;
   let identifyHarness = true;
+  let format: SessionFormat | undefined;
+  let strict = false;
+  let stream = false;
+  let mergeAgents = true;
+  let pricingPath: string | undefined;
+  let pairTools = false;
+  let offline = true;
+  let redact = false;
+  let outputFormat: 'html' | 'md' = 'html';
+  let includeHarness = false;
+  let includeThinking = false;
+  let redactRulesPath: string | undefined;
   const files: string[] = [];
   const theme: ThemeConfig = {};
 
@@ -178,6 +337,54 @@ function main(): void {
       outputFile = resolve(process.cwd(), value);
     } else if (arg === '--no-identify-harness') {
       identifyHarness = false;
+    } else if (arg === '--strict') {
+      strict = true;
+    } else if (arg === '--stream') {
+      stream = true;
+    } else if (arg === '--no-merge-agents') {
+      mergeAgents = false;
+    } else if (arg === '--format') {
+      const value = args[++i];
+      const formats = getFormats();
+      if (!value) {
+        console.error(`Error: --format requires one of: ${formats.join(', ')}`);
+        process.exit(1);
+      }
+      if (!formats.includes(value as SessionFormat)) {
+        console.error(`Error: Unknown format "${value}" (expected one of: ${formats.join(', ')})`);
+        process.exit(1);
+      }
+      format = value as SessionFormat;
+    } else if (arg === '--pair-tools') {
+      pairTools = true;
+    } else if (arg === '--redact') {
+      redact = true;
+    } else if (arg === '--redact-rules') {
+      redactRulesPath = args[++i];
+      if (!redactRulesPath) {
+        console.error('Error: --redact-rules requires a JSON file path');
+        process.exit(1);
+      }
+      redact = true;
+    } else if (arg === '--output-format') {
+      const value = args[++i];
+      if (value !== 'html' && value !== 'md') {
+        console.error('Error: --output-format requires one of: html, md');
+        process.exit(1);
+      }
+      outputFormat = value;
+    } else if (arg === '--include-harness') {
+      includeHarness = true;
+    } else if (arg === '--include-thinking') {
+      includeThinking = true;
+    } else if (arg === '--cdn-icons') {
+      offline = false;
+    } else if (arg === '--pricing') {
+      pricingPath = args[++i];
+      if (!pricingPath) {
+        console.error('Error: --pricing requires a JSON file path');
+        process.exit(1);
+      }
     } else if (themeFlags[arg]) {
       const value = args[++i];
       if (!value) {
@@ -199,24 +406,68 @@ function main(): void {
     process.exit(1);
   }
 
-  if (outputFile && files.length > 1) {
+  // Directories expand to the logs they contain; Claude sub-agent logs are
+  // grouped with their parent session's log unless merging is disabled or
+  // another format is forced
+  const inputs = expandInputs(files);
+  const groups = mergeAgents && (!format || format === 'claude')
+    ? groupSessionFiles(inputs)
+    : inputs.map(main => ({ main, agents: [] }));
+
+  if (groups.length === 0) {
+    console.error('Error: No .jsonl or .json files found in the given directories');
+    process.exit(1);
+  }
+
+  if (outputFile && groups.length > 1) {
     console.error('Error: --output-file can only be used with a single input file');
     process.exit(1);
   }
 
-  const options: ParseOptions = { identifyHarness };
+  const options: ParseOptions = { identifyHarness, format, strict };
   const hasTheme = Object.keys(theme).length > 0;
 
-  console.log('chat-to-html - Converting to HTML reports\n');
+  let pricing = DEFAULT_PRICES;
+  if (pricingPath) {
+    try {
+      pricing = loadPriceTable(pricingPath);
+    } catch (err) {
+      console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+      process.exit(1);
+    }
+  }
+
+  let redactionRules: RedactionRule[] | undefined;
+  if (redact) {
+    try {
+      redactionRules = [
+        ...DEFAULT_REDACTION_RULES,
+        ...(redactRulesPath ? loadRedactionRules(redactRulesPath) : []),
+      ];
+    } catch (err) {
+      console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+      process.exit(1);
+    }
+  }
+
+  const markdownOptions: MarkdownOptions | undefined = outputFormat === 'md'
+    ? { pricing, includeHarness, includeThinking }
+    : undefined;
+
+  console.log(`chat-to-html - Converting to ${outputFormat === 'md' ? 'Markdown transcripts' : 'HTML reports'}\n`);
 
   let hasErrors = false;
-  for (const file of files) {
-    const success = processFile(
-      file,
+  for (const group of groups) {
+    const success = await processFile(
+      group.main,
       outputDir,
       outputFile,
       options,
-      hasTheme ? theme : undefined,
+      { theme: hasTheme ? theme : undefined, pricing, pairTools, offline },
+      stream,
+      group.agents,
+      redactionRules,
+      markdownOptions,
     );
     if (!success) {
       hasErrors = true;
@@ -230,4 +481,7 @@ function main(): void {
   console.log('Done!');
 }
 
-main();
+main().catch(err => {
+  console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+  process.exit(1);
+});
@@ -0,0 +1,365 @@
+import { once } from 'events';
+import { createReadStream, createWriteStream } from 'fs';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  ChatMessage,
+  ChatSession,
+  ChatThread,
+  MessageContent,
+  SessionEvent,
+  SessionSource,
+  SessionSummary,
+  ToolCall,
+  ToolResult,
+  TokenUsage,
+  getTotalTokens,
+} from './types.js';
+import { CostTally, DEFAULT_PRICES, PriceTable, estimateModelCost, estimateSessionCost, formatCost } from './pricing.js';
+import { FILE_OPERATION_LABELS, diffsForToolCall, shellCommandText } from './diff.js';
+import { contextLabels, formatNumber, formatTimestamp, interruptionLabels, writeChunk } from './html-generator.js';
+
+// What goes into a transcript; the defaults match the report's filter bar
+export interface MarkdownOptions {
+  pricing?: PriceTable;        // Model prices for cost estimates (default: built-in table)
+  includeHarness?: boolean;    // Harness messages (default: false)
+  includeThinking?: boolean;   // Reasoning and thinking (default: false)
+  includeToolCalls?: boolean;  // Tool calls (default: true)
+  includeToolResults?: boolean;  // Tool results (default: true)
+}
+
+interface MarkdownContext {
+  source: SessionSource;
+  pricing: PriceTable;
+  options: MarkdownOptions;
+  // Sub-agent threads keyed by the id of the tool call that spawned them
+  threadsByToolCall: Map<string, ChatThread>;
+  // Heading level of messages; sub-agent messages are one level deeper
+  depth: number;
+}
+
+// Outputs longer than this are folded into a <details> block
+const FOLD_LINES = 20;
+const FOLD_CHARS = 2000;
+
+// Inline code that survives backticks in the text
+function inlineCode(text: string): string {
+  const longest = Math.max(0, ...(text.match(/`+/g) || []).map(run => run.length));
+  const ticks = '`'.repeat(longest + 1);
+  const pad = text.startsWith('`') || text.endsWith('`') ? ' ' : '';
+  return `${ticks}${pad}${text}${pad}${ticks}`;
+}
+
+// A fenced block whose fence is longer than any backtick run in the text
+function fence(text: string, language = ''): string {
+  const longest = Math.max(2, ...(text.match(/`{3,}/g) || []).map(run => run.length));
+  const ticks = '`'.repeat(longest + 1);
+  return `${ticks}${language}\n${text.replace(/\n$/, '')}\n${ticks}`;
+}
+
+// Text for a table cell: no line breaks, and pipes escaped
+function cell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function escapeSummary(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// Long blocks are collapsed; GitHub needs the blank lines around the body
+function foldable(summary: string, body: string, length: number, lineCount: number): string {
+  if (lineCount <= FOLD_LINES && length <= FOLD_CHARS) {
+    return `**${summary}**\n\n${body}`;
+  }
+  return `<details>\n<summary>${escapeSummary(summary)} (${lineCount} lines)</summary>\n\n${body}\n\n</details>`;
+}
+
+function lineCount(text: string): number {
+  return text.replace(/\n$/, '').split('\n').length;
+}
+
+function renderTable(rows: [string, string][]): string {
+  const lines = rows.map(([label, value]) => `| ${label} | ${cell(value)} |`);
+  return ['| Field | Value |', '| --- | --- |', ...lines].join('\n');
+}
+
+function renderSessionTable(
+  session: Omit<ChatSession, 'messages'>,
+  messageCount: number,
+  cost: number | undefined,
+): string {
+  const rows: [string, string][] = [
+    ['Session ID', inlineCode(session.sessionId)],
+    ['Harness', session.source],
+  ];
+  if (session.version) rows.push(['Version', session.version]);
+  if (session.models && session.models.length > 1) {
+    rows.push(['Models', session.models.join(', ')]);
+  } else if (session.model) {
+    rows.push(['Model', session.model]);
+  }
+  if (session.turnContext?.effort) rows.push(['Reasoning Effort', session.turnContext.effort]);
+  if (session.cwd) rows.push(['Working Directory', inlineCode(session.cwd)]);
+  if (session.gitBranch) rows.push(['Git Branch', inlineCode(session.gitBranch)]);
+  if (session.gitCommit) rows.push(['Starting Commit', inlineCode(session.gitCommit.slice(0, 7))]);
+  if (session.repositoryUrl) rows.push(['Repository', session.repositoryUrl]);
+  rows.push(['Messages', formatNumber(messageCount)]);
+
+  const usage = session.totalUsage;
+  rows.push(['Input Tokens', formatNumber(usage.inputTokens)]);
+  rows.push(['Output Tokens', formatNumber(usage.outputTokens)]);
+  if (usage.cacheCreationTokens) rows.push(['Cache Created', formatNumber(usage.cacheCreationTokens)]);
+  if (usage.cacheReadTokens) rows.push(['Cache Read', formatNumber(usage.cacheReadTokens)]);
+  if (usage.reasoningTokens) {
+    rows.push(['Reasoning Tokens', formatNumber(usage.reasoningTokens)]);
+  } else if (session.source === 'claude') {
+    rows.push(['Reasoning Tokens', 'n/a (Claude logs include thinking in output tokens)']);
+  }
+  rows.push(['Total Tokens', formatNumber(getTotalTokens(usage, session.source))]);
+  if (cost !== undefined) rows.push(['Estimated Cost', formatCost(cost)]);
+
+  return renderTable(rows);
+}
+
+// Edits as unified diffs, shell commands as scripts, anything else as JSON
+function renderToolInput(call: ToolCall): string {
+  const diffs = diffsForToolCall(call);
+  if (diffs) {
+    return diffs.map(diff => {
+      const lines = diff.hunks.flatMap(hunk => [
+        ...(hunk.header !== undefined || diff.hunks.length > 1 ? [`@@ ${hunk.header || ''}`.trimEnd()] : []),
+        ...hunk.lines.map(line => `${line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' '}${line.text}`),
+      ]);
+      const target = diff.movedTo ? `${diff.path} → ${diff.movedTo}` : diff.path;
+      const heading = `${FILE_OPERATION_LABELS[diff.operation]} ${inlineCode(target)} (+${diff.added} −${diff.removed})`;
+      return lines.length > 0 ? `${heading}\n\n${fence(lines.join('\n'), 'diff')}` : heading;
+    }).join('\n\n');
+  }
+  const command = ['Bash', 'shell', 'shell_command'].includes(call.name) ? shellCommandText(call.input) : undefined;
+  if (command !== undefined) {
+    return fence(command, 'shell');
+  }
+  return fence(JSON.stringify(call.input, null, 2), 'json');
+}
+
+function renderToolResult(result: ToolResult): string {
+  const status = result.interrupted
+    ? ' (interrupted)'
+    : result.status === 'error'
+      ? result.exitCode !== undefined ? ` (exit code ${result.exitCode})` : ' (error)'
+      : '';
+  const blocks: string[] = [];
+
+  if (result.parts?.some(part => part.type !== 'text')) {
+    for (const part of result.parts) {
+      if (part.type === 'image') {
+        blocks.push(renderImage(part.image?.url, part.image?.mediaType));
+      } else if (part.text) {
+        blocks.push(fence(part.text, part.type === 'other' ? 'json' : ''));
+      }
+    }
+  } else {
+    // Codex results carry a status header in content, so don't fall back to
+    // it; an empty result is shown as "(no output)", as in the report
+    const emptyOutput = result.exitCode !== undefined || result.stderr ? '' : result.content;
+    const output = result.stdout !== undefined || result.stderr !== undefined
+      ? result.stdout || emptyOutput
+      : result.content;
+    if (output) blocks.push(fence(output));
+    if (result.stderr) blocks.push(`stderr:\n\n${fence(result.stderr)}`);
+  }
+
+  const body = blocks.length > 0 ? blocks.join('\n\n') : '*(no output)*';
+  const text = blocks.join('\n');
+  return foldable(`Output${status}`, body, text.length, lineCount(text));
+}
+
+function renderImage(url: string | undefined, mediaType: string | undefined): string {
+  // Embedded images would bloat the transcript, so only links are kept
+  return url && /^https:\/\//i.test(url)
+    ? `![image](${url})`
+    : `*[image${mediaType ? `: ${mediaType}` : ''}]*`;
+}
+
+function renderContent(item: MessageContent, ctx: MarkdownContext): string {
+  switch (item.type) {
+    case 'text':
+      return (item.text || '').trim();
+
+    case 'thinking': {
+      if (!ctx.options.includeThinking || !item.text) return '';
+      const quoted = item.text.trim().split('\n').map(line => `> ${line}`.trimEnd()).join('\n');
+      return `> **Thinking**\n>\n${quoted}`;
+    }
+
+    case 'image':
+      return item.image ? renderImage(item.image.url, item.image.mediaType) : '';
+
+    case 'tool_use': {
+      if (!item.toolCall || ctx.options.includeToolCalls === false) return '';
+      const call = item.toolCall;
+      const input = renderToolInput(call);
+      const thread = ctx.threadsByToolCall.get(call.id);
+      const threadMarkdown = thread ? `\n\n${renderThread(thread, ctx)}` : '';
+      return `**Tool call:** ${inlineCode(call.name)}\n\n${input}${threadMarkdown}`;
+    }
+
+    case 'tool_result':
+      if (!item.toolResult || ctx.options.includeToolResults === false) return '';
+      return renderToolResult(item.toolResult);
+
+    default:
+      return '';
+  }
+}
+
+function renderEvent(event: SessionEvent): string {
+  switch (event.type) {
+    case 'context_change': {
+      const changes = event.changed
+        .map(key => `${contextLabels[key]}: ${event.previous[key] || 'default'} → ${event.context[key] || 'default'}`)
+        .join(', ');
+      return `> *Settings changed: ${changes}*`;
+    }
+
+    case 'interruption': {
+      const detail = [event.reason, event.detail].filter(Boolean).join(': ');
+      return `> *${interruptionLabels[event.kind].title}${detail ? ` (${detail.replace(/\n/g, ' ')})` : ''}*`;
+    }
+
+    case 'checkpoint': {
+      const label = event.commit ? `Checkpoint ${inlineCode(event.commit.slice(0, 7))}` : 'Checkpoint';
+      const files = event.files?.length ? `, ${event.files.length} file(s) backed up` : '';
+      return `> *${label}${files}*`;
+    }
+  }
+}
+
+function roleLabel(message: ChatMessage): string {
+  if (message.content.length > 0 && message.content.every(item => item.type === 'thinking')) return 'Thinking';
+  if (message.isHarness) return 'Harness';
+  if (message.role === 'assistant') return 'Assistant';
+  if (message.content.length > 0 && message.content.every(item => item.type === 'tool_result')) return 'Tool Result';
+  return message.role === 'system' ? 'System' : 'User';
+}
+
+function renderUsage(usage: TokenUsage, model: string | undefined, ctx: MarkdownContext): string {
+  const parts = [
+    `${formatNumber(usage.inputTokens)} in`,
+    `${formatNumber(usage.outputTokens)} out`,
+  ];
+  if (usage.cacheReadTokens) parts.push(`${formatNumber(usage.cacheReadTokens)} cache read`);
+  const cost = estimateModelCost(usage, ctx.source, model, ctx.pricing);
+  if (cost !== undefined) parts.push(formatCost(cost));
+  return `<sub>Tokens: ${parts.join(' · ')}</sub>`;
+}
+
+function renderMessage(message: ChatMessage, ctx: MarkdownContext): string {
+  if (message.event) {
+    return renderEvent(message.event);
+  }
+
+  // Thinking-only messages follow the thinking choice, other harness
+  // messages the harness choice
+  const label = roleLabel(message);
+  if (label === 'Thinking' && !ctx.options.includeThinking) return '';
+  if (label === 'Harness' && !ctx.options.includeHarness) return '';
+
+  const blocks = message.content.map(item => renderContent(item, ctx)).filter(block => block !== '');
+  if (blocks.length === 0) return '';
+
+  const timestamp = formatTimestamp(message.timestamp);
+  const details = [message.model, timestamp].filter(Boolean).join(' · ');
+  const heading = `${'#'.repeat(ctx.depth)} ${label}${details ? ` · ${details}` : ''}`;
+  const usage = message.usage ? `\n\n${renderUsage(message.usage, message.model, ctx)}` : '';
+  return `${heading}\n\n${blocks.join('\n\n')}${usage}`;
+}
+
+function renderMessages(messages: ChatMessage[], ctx: MarkdownContext): string {
+  return messages.map(message => renderMessage(message, ctx)).filter(block => block !== '').join('\n\n');
+}
+
+function renderThread(thread: ChatThread, ctx: MarkdownContext): string {
+  const body = renderMessages(thread.messages, { ...ctx, depth: Math.min(ctx.depth + 1, 6) });
+  const summary = `Sub-agent${thread.agentId ? ` ${thread.agentId}` : ''}: ${thread.messages.length} messages, `
+    + `${formatNumber(getTotalTokens(thread.totalUsage, ctx.source))} tokens`;
+  return `<details>\n<summary>${escapeSummary(summary)}</summary>\n\n${body}\n\n</details>`;
+}
+
+function createMarkdownContext(
+  source: SessionSource,
+  options: MarkdownOptions,
+  threads?: ChatThread[],
+): MarkdownContext {
+  const threadsByToolCall = new Map<string, ChatThread>();
+  for (const thread of threads || []) {
+    if (thread.parentToolCallId) {
+      threadsByToolCall.set(thread.parentToolCallId, thread);
+    }
+  }
+  return { source, pricing: options.pricing || DEFAULT_PRICES, options, threadsByToolCall, depth: 2 };
+}
+
+/**
+ * Render a session as a Markdown transcript: a table of session metadata
+ * and token totals, then one section per message with tool calls and
+ * results in fenced blocks and long outputs collapsed.
+ */
+export function generateMarkdown(session: ChatSession, options: MarkdownOptions = {}): string {
+  const ctx = createMarkdownContext(session.source, options, session.threads);
+
+  // Threads whose spawning call could not be found go after the main thread
+  const unlinkedThreads = (session.threads || [])
+    .filter(thread => !thread.parentToolCallId || !ctx.threadsByToolCall.has(thread.parentToolCallId))
+    .map(thread => renderThread(thread, ctx));
+
+  return [
+    `# Chat Session ${inlineCode(session.sessionId)}`,
+    renderSessionTable(session, session.messages.length, estimateSessionCost(session, ctx.pricing)),
+    renderMessages(session.messages, ctx),
+    ...unlinkedThreads,
+  ].filter(block => block !== '').join('\n\n') + '\n';
+}
+
+/**
+ * Stream a Markdown transcript to `output` as messages are produced, laid
+ * out like `generateMarkdown`. The session table at the top needs totals
+ * that are only known at the end, so messages are spooled to a temporary
+ * file and copied after it. Returns the session summary from the parser.
+ */
+export async function writeMarkdownStream(
+  output: NodeJS.WritableStream,
+  messages: AsyncGenerator<ChatMessage, SessionSummary>,
+  source: SessionSource,
+  options: MarkdownOptions = {},
+): Promise<SessionSummary> {
+  const ctx = createMarkdownContext(source, options);
+  const spoolDir = await mkdtemp(join(tmpdir(), 'chat-to-html-'));
+  const spoolPath = join(spoolDir, 'messages.md');
+  const spool = createWriteStream(spoolPath);
+  const cost = new CostTally(source, ctx.pricing);
+
+  try {
+    let result = await messages.next();
+    while (!result.done) {
+      cost.add([result.value]);
+      const markdown = renderMessage(result.value, ctx);
+      if (markdown) await writeChunk(spool, `\n${markdown}\n`);
+      result = await messages.next();
+    }
+    spool.end();
+    await once(spool, 'finish');
+
+    const summary = result.value;
+    await writeChunk(output, `# Chat Session ${inlineCode(summary.sessionId)}\n\n`
+      + `${renderSessionTable(summary, summary.messageCount, cost.total(summary.totalUsage, summary.model))}\n`);
+    for await (const chunk of createReadStream(spoolPath, 'utf-8')) {
+      await writeChunk(output, chunk as string);
+    }
+    return summary;
+  } finally {
+    spool.destroy();
+    await rm(spoolDir, { recursive: true, force: true });
+  }
+}
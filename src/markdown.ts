@@ -0,0 +1,897 @@
+import { escapeHtml } from './html-utils.js';
+import { highlight } from './highlight.js';
+
+/**
+ * CommonMark renderer with the GitHub extensions agents rely on: tables,
+ * task lists, strikethrough and bare URL autolinks. Raw HTML is never
+ * passed through; it is escaped like any other text, and link targets with
+ * schemes other than http(s) and mailto are dropped. Line breaks inside a
+ * paragraph are kept as <br>, as in GitHub comments, since chat messages
+ * are written with that expectation.
+ */
+
+type Align = 'left' | 'center' | 'right' | undefined;
+
+interface ListItem {
+  children: Block[];
+  checked?: boolean;  // Task list item state; undefined for plain items
+}
+
+type Block =
+  | { type: 'paragraph'; text: string }
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'code'; info: string; text: string }
+  | { type: 'rule' }
+  | { type: 'blockquote'; children: Block[] }
+  | { type: 'list'; ordered: boolean; start: number; tight: boolean; items: ListItem[] }
+  | { type: 'table'; align: Align[]; header: string[]; rows: string[][] };
+
+interface LinkReference {
+  url: string;
+  title?: string;
+}
+
+type References = Map<string, LinkReference>;
+
+// Block structure
+
+const FENCE_OPEN = /^(`{3,}|~{3,})(.*)$/;
+const ATX_HEADING = /^(#{1,6})(?=[ \t]|$)(.*)$/;
+const SETEXT_UNDERLINE = /^(=+|-+)[ \t]*$/;
+const THEMATIC_BREAK = /^([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const BULLET_MARKER = /^([-+*])(?=[ \t]|$)/;
+const ORDERED_MARKER = /^(\d{1,9})([.)])(?=[ \t]|$)/;
+const TABLE_DELIMITER = /^\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+// Block quotes and list items nested deeper than this are left as text, so
+// a log cannot exhaust the stack
+const MAX_NESTING = 32;
+const LINK_DEFINITION = /^\[((?:\\.|[^\\\]])+)\]:[ \t]*(<[^<>\n]*>|\S+)(?:[ \t]+("(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*'|\((?:\\.|[^)\\])*\)))?[ \t]*$/;
+
+function expandTabs(line: string): string {
+  // Only leading tabs matter for block structure
+  return line.replace(/^[ \t]+/, indent => {
+    let width = 0;
+    for (const ch of indent) width = ch === '\t' ? width + 4 - (width % 4) : width + 1;
+    return ' '.repeat(width);
+  });
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+function isBlank(line: string): boolean {
+  return line.trim() === '';
+}
+
+// Remove up to `count` leading spaces
+function unindent(line: string, count: number): string {
+  return line.slice(Math.min(count, indentOf(line)));
+}
+
+interface ListMarker {
+  ordered: boolean;
+  bullet: string;   // Bullet character or ordered delimiter
+  start: number;
+  width: number;    // Indent of the item's content, from the line start
+  empty: boolean;   // Nothing after the marker
+}
+
+function parseListMarker(line: string): ListMarker | undefined {
+  const indent = indentOf(line);
+  if (indent >= 4) return undefined;
+  const rest = line.slice(indent);
+  const bullet = BULLET_MARKER.exec(rest);
+  const ordered = bullet ? undefined : ORDERED_MARKER.exec(rest);
+  const marker = bullet ? bullet[0] : ordered ? ordered[0] : undefined;
+  if (marker === undefined) return undefined;
+
+  const after = rest.slice(marker.length);
+  const spaces = indentOf(after);
+  const empty = isBlank(after);
+  // Five or more spaces start an indented code block inside the item
+  const padding = empty || spaces > 4 ? 1 : spaces;
+  return {
+    ordered: !bullet,
+    bullet: bullet ? bullet[1] : ordered![2],
+    start: ordered ? parseInt(ordered[1], 10) : 1,
+    width: indent + marker.length + padding,
+    empty,
+  };
+}
+
+function isFenceClose(line: string, fence: string): boolean {
+  if (indentOf(line) >= 4) return false;
+  const trimmed = line.trim();
+  return trimmed.length >= fence.length &&
+    trimmed[0] === fence[0] &&
+    new RegExp(`^\\${fence[0]}+$`).test(trimmed);
+}
+
+/**
+ * Whether a line starts a block that interrupts a paragraph, which also
+ * ends lazy continuation in block quotes and list items.
+ */
+function interruptsParagraph(line: string): boolean {
+  if (isBlank(line)) return true;
+  if (indentOf(line) >= 4) return false;
+  const content = line.trimStart();
+  if (FENCE_OPEN.test(content) && !(content[0] === '`' && content.slice(3).includes('`'))) return true;
+  if (ATX_HEADING.test(content) || THEMATIC_BREAK.test(content) || content.startsWith('>')) return true;
+  const marker = parseListMarker(line);
+  return marker !== undefined && !marker.empty && (!marker.ordered || marker.start === 1);
+}
+
+function splitTableRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+  const cells: string[] = [];
+  let cell = '';
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === '\\' && row[i + 1] === '|') {
+      cell += '|';
+      i++;
+    } else if (row[i] === '|') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += row[i];
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+function parseAlignment(cell: string): Align {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  return left && right ? 'center' : right ? 'right' : left ? 'left' : undefined;
+}
+
+function normalizeLabel(label: string): string {
+  return label.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function parseBlocks(lines: string[], refs: References, depth = 0): Block[] {
+  const blocks: Block[] = [];
+  const canNest = depth < MAX_NESTING;
+  let paragraph: string[] | undefined;
+
+  const closeParagraph = () => {
+    if (paragraph) {
+      blocks.push({ type: 'paragraph', text: paragraph.join('\n').trim() });
+      paragraph = undefined;
+    }
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (isBlank(line)) {
+      closeParagraph();
+      i++;
+      continue;
+    }
+
+    const indent = indentOf(line);
+
+    // Indented code cannot interrupt a paragraph
+    if (indent >= 4 && !paragraph) {
+      const code: string[] = [];
+      while (i < lines.length && (isBlank(lines[i]) || indentOf(lines[i]) >= 4)) {
+        code.push(unindent(lines[i], 4));
+        i++;
+      }
+      while (code.length > 0 && isBlank(code[code.length - 1])) code.pop();
+      blocks.push({ type: 'code', info: '', text: code.join('\n') });
+      continue;
+    }
+
+    const content = indent >= 4 ? line.trim() : line.slice(indent);
+
+    if (indent < 4) {
+      const fence = FENCE_OPEN.exec(content);
+      if (fence && !(fence[1][0] === '`' && fence[2].includes('`'))) {
+        closeParagraph();
+        const code: string[] = [];
+        i++;
+        while (i < lines.length && !isFenceClose(lines[i], fence[1])) {
+          code.push(unindent(lines[i], indent));
+          i++;
+        }
+        i++;  // Closing fence, or past the end when the block is unclosed
+        blocks.push({ type: 'code', info: fence[2].trim(), text: code.join('\n') });
+        continue;
+      }
+
+      const heading = ATX_HEADING.exec(content);
+      if (heading) {
+        closeParagraph();
+        const text = heading[2].replace(/(?:^|[ \t]+)#+[ \t]*$/, '').trim();
+        blocks.push({ type: 'heading', level: heading[1].length, text });
+        i++;
+        continue;
+      }
+
+      const underline = paragraph ? SETEXT_UNDERLINE.exec(content) : null;
+      if (underline && paragraph) {
+        blocks.push({ type: 'heading', level: underline[1][0] === '=' ? 1 : 2, text: paragraph.join('\n').trim() });
+        paragraph = undefined;
+        i++;
+        continue;
+      }
+
+      if (THEMATIC_BREAK.test(content)) {
+        closeParagraph();
+        blocks.push({ type: 'rule' });
+        i++;
+        continue;
+      }
+
+      if (canNest && content.startsWith('>')) {
+        closeParagraph();
+        const inner: string[] = [];
+        while (i < lines.length) {
+          const current = lines[i];
+          if (indentOf(current) < 4 && current.trimStart().startsWith('>')) {
+            const quoted = current.trimStart().slice(1);
+            inner.push(expandTabs(quoted.startsWith(' ') || quoted.startsWith('\t') ? quoted.slice(1) : quoted));
+          } else if (
+            !isBlank(current) &&
+            inner.length > 0 &&
+            !isBlank(inner[inner.length - 1]) &&
+            !interruptsParagraph(current)
+          ) {
+            // Lazy continuation of a quoted paragraph
+            inner.push(current);
+          } else {
+            break;
+          }
+          i++;
+        }
+        blocks.push({ type: 'blockquote', children: parseBlocks(inner, refs, depth + 1) });
+        continue;
+      }
+
+      const marker = canNest ? parseListMarker(line) : undefined;
+      // Only non-empty bullets and lists starting at 1 interrupt a paragraph
+      if (marker && !(paragraph && (marker.empty || (marker.ordered && marker.start !== 1)))) {
+        closeParagraph();
+        i = parseList(lines, i, marker, refs, blocks, depth);
+        continue;
+      }
+
+      // A table may start right after a paragraph line, as agents often
+      // introduce one with a sentence ending in a colon
+      if (content.includes('|') && i + 1 < lines.length && TABLE_DELIMITER.test(lines[i + 1].trim())) {
+        const header = splitTableRow(content);
+        const delimiter = splitTableRow(lines[i + 1]);
+        if (header.length === delimiter.length) {
+          closeParagraph();
+          const rows: string[][] = [];
+          i += 2;
+          while (i < lines.length && !isBlank(lines[i]) && !interruptsParagraph(lines[i])) {
+            const cells = splitTableRow(lines[i]);
+            rows.push(header.map((_, index) => cells[index] ?? ''));
+            i++;
+          }
+          blocks.push({ type: 'table', align: delimiter.map(parseAlignment), header, rows });
+          continue;
+        }
+      }
+
+      if (!paragraph) {
+        const definition = LINK_DEFINITION.exec(content);
+        if (definition) {
+          const label = normalizeLabel(definition[1]);
+          if (label && !refs.has(label)) {
+            const url = definition[2].replace(/^<(.*)>$/, '$1');
+            const title = definition[3] ? definition[3].slice(1, -1) : undefined;
+            refs.set(label, { url: unescapeText(url), title: title !== undefined ? unescapeText(title) : undefined });
+          }
+          i++;
+          continue;
+        }
+      }
+    }
+
+    if (paragraph) {
+      paragraph.push(content);
+    } else {
+      paragraph = [content];
+    }
+    i++;
+  }
+
+  closeParagraph();
+  return blocks;
+}
+
+// Parse the list starting at lines[start]; returns the index after it
+function parseList(
+  lines: string[],
+  start: number,
+  first: ListMarker,
+  refs: References,
+  blocks: Block[],
+  depth: number,
+): number {
+  const items: ListItem[] = [];
+  let loose = false;
+  let i = start;
+  let marker: ListMarker | undefined = first;
+
+  while (marker && marker.ordered === first.ordered && marker.bullet === first.bullet) {
+    // A thematic break such as "* * *" is not a list item
+    if (THEMATIC_BREAK.test(lines[i].trim())) break;
+
+    const itemLines = [marker.empty ? '' : lines[i].slice(marker.width)];
+    i++;
+    while (i < lines.length) {
+      const current = lines[i];
+      if (isBlank(current)) {
+        itemLines.push('');
+      } else if (indentOf(current) >= marker.width) {
+        itemLines.push(current.slice(marker.width));
+      } else if (!isBlank(itemLines[itemLines.length - 1]) && !interruptsParagraph(current) && !parseListMarker(current)) {
+        // Lazy continuation of the item's paragraph
+        itemLines.push(current.trimStart());
+      } else {
+        break;
+      }
+      i++;
+    }
+
+    // Blank lines at the end belong between items, not to this item
+    let trailingBlanks = 0;
+    while (itemLines.length > 1 && isBlank(itemLines[itemLines.length - 1])) {
+      itemLines.pop();
+      trailingBlanks++;
+    }
+
+    let checked: boolean | undefined;
+    const task = /^\[([ xX])\](?=[ \t])/.exec(itemLines[0]);
+    if (task) {
+      checked = task[1] !== ' ';
+      itemLines[0] = itemLines[0].slice(3).trimStart();
+    }
+
+    const children = parseBlocks(itemLines, refs, depth + 1);
+    items.push({ children, checked });
+    if (children.length > 1 && hasInnerBlankLine(itemLines)) loose = true;
+
+    marker = i < lines.length ? parseListMarker(lines[i]) : undefined;
+    const continues = marker && marker.ordered === first.ordered && marker.bullet === first.bullet;
+    if (trailingBlanks > 0) {
+      if (continues) loose = true;
+      else break;
+    }
+  }
+
+  // Step back over blank lines that ended the list
+  while (i > start && isBlank(lines[i - 1])) i--;
+
+  blocks.push({ type: 'list', ordered: first.ordered, start: first.start, tight: !loose, items });
+  return i;
+}
+
+// Blank lines between an item's blocks make the list loose; blank lines
+// inside fenced code do not count
+function hasInnerBlankLine(lines: string[]): boolean {
+  let fence: string | undefined;
+  for (const line of lines) {
+    const content = line.trimStart();
+    if (fence) {
+      if (isFenceClose(line, fence)) fence = undefined;
+      continue;
+    }
+    const open = FENCE_OPEN.exec(content);
+    if (open) {
+      fence = open[1];
+    } else if (isBlank(line)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// Inline content
+
+const ASCII_PUNCTUATION = /[!-/:-@[-`{-~]/;
+const ENTITY = /&(?:#(\d{1,7})|#[xX]([\da-fA-F]{1,6})|(amp|lt|gt|quot|apos|nbsp|copy|reg|trade|hellip|mdash|ndash|rarr|larr));/g;
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0', copy: '©', reg: '®',
+  trade: '™', hellip: '…', mdash: '—', ndash: '–', rarr: '→', larr: '←',
+};
+const AUTOLINK = /^<([A-Za-z][A-Za-z0-9+.-]{1,31}:[^\s<>]*)>/;
+const EMAIL_AUTOLINK = /^<([a-zA-Z0-9.!#$%&'*+/=?^_`{|}~-]+@[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*)>/;
+const BARE_URL = /^(?:https?:\/\/|www\.)[^\s<\]]+/;
+// Characters with no inline meaning, consumed in one go
+const PLAIN_RUN = /[^\\`*_~[\]!<\nhw]+/y;
+const SAFE_SCHEME = /^(?:https?|mailto):/i;
+// Limits from the CommonMark reference implementation, which also keep
+// unclosed links from being rescanned to the end of the text
+const MAX_LINK_PARENS = 32;
+const MAX_LABEL_LENGTH = 999;
+
+function decodeEntities(text: string): string {
+  return text.replace(ENTITY, (match, dec: string, hex: string, name: string) => {
+    if (name) return NAMED_ENTITIES[name];
+    const code = dec ? parseInt(dec, 10) : parseInt(hex, 16);
+    return code > 0 && code <= 0x10ffff && (code < 0xd800 || code > 0xdfff) ? String.fromCodePoint(code) : '\ufffd';
+  });
+}
+
+function unescapeText(text: string): string {
+  return decodeEntities(text.replace(/\\([!-/:-@[-`{-~])/g, '$1'));
+}
+
+/**
+ * URL for an href or src attribute, or undefined when its scheme is not
+ * allowed. Relative URLs and fragments are kept.
+ */
+function safeUrl(url: string): string | undefined {
+  const trimmed = url.trim();
+  if (/^[A-Za-z][A-Za-z0-9+.-]*:/.test(trimmed) && !SAFE_SCHEME.test(trimmed)) return undefined;
+  return escapeHtml(encodeURI(trimmed).replace(/%25([\da-fA-F]{2})/g, '%$1'));
+}
+
+interface Delimiter {
+  char: '*' | '_' | '~';
+  count: number;
+  original: number;
+  canOpen: boolean;
+  canClose: boolean;
+}
+
+interface Bracket {
+  image: boolean;
+  active: boolean;
+  start: number;  // Position of the label in the text
+}
+
+type Piece =
+  | { kind: 'text'; value: string }
+  | { kind: 'html'; value: string }
+  | { kind: 'delimiter'; delimiter: Delimiter }
+  | { kind: 'bracket'; bracket: Bracket };
+
+function isWhitespace(ch: string | undefined): boolean {
+  return ch === undefined || /\s/.test(ch);
+}
+
+function isPunctuation(ch: string | undefined): boolean {
+  return ch !== undefined && (ASCII_PUNCTUATION.test(ch) || /\p{P}|\p{S}/u.test(ch));
+}
+
+class InlineParser {
+  private pieces: Piece[] = [];
+  private brackets: number[] = [];  // Indices of the open brackets in pieces
+  private pos = 0;
+
+  constructor(private text: string, private refs: References) {}
+
+  parse(): string {
+    const { text } = this;
+    while (this.pos < text.length) {
+      const ch = text[this.pos];
+      if (ch === '\\') this.parseEscape();
+      else if (ch === '`') this.parseCodeSpan();
+      else if (ch === '*' || ch === '_' || ch === '~') this.parseDelimiterRun(ch);
+      else if (ch === '[') this.pushBracket(false, 1);
+      else if (ch === '!' && text[this.pos + 1] === '[') this.pushBracket(true, 2);
+      else if (ch === ']') this.parseCloseBracket();
+      else if (ch === '<') this.parseAutolink();
+      else if (ch === '\n') this.parseLineBreak();
+      else if (!this.parseBareUrl()) this.parsePlainText();
+    }
+    this.processEmphasis(0);
+    return this.render(this.pieces);
+  }
+
+  private pushText(value: string, advance: number): void {
+    const last = this.pieces[this.pieces.length - 1];
+    if (last?.kind === 'text') {
+      last.value += value;
+    } else {
+      this.pieces.push({ kind: 'text', value });
+    }
+    this.pos += advance;
+  }
+
+  private parsePlainText(): void {
+    PLAIN_RUN.lastIndex = this.pos;
+    const run = PLAIN_RUN.exec(this.text);
+    const value = run ? run[0] : this.text[this.pos];
+    this.pushText(value, value.length);
+  }
+
+  private pushHtml(value: string, advance: number): void {
+    this.pieces.push({ kind: 'html', value });
+    this.pos += advance;
+  }
+
+  private parseEscape(): void {
+    const next = this.text[this.pos + 1];
+    if (next === '\n') {
+      this.pushHtml('<br>\n', 2);
+    } else if (next !== undefined && ASCII_PUNCTUATION.test(next)) {
+      // Escaped characters are literal text and never delimiters
+      this.pushText(`\x00${next}`, 2);
+    } else {
+      this.pushText('\\', 1);
+    }
+  }
+
+  private parseCodeSpan(): void {
+    const { text } = this;
+    const run = /^`+/.exec(text.slice(this.pos))![0];
+    const closer = new RegExp(`(?<!\`)${run}(?!\`)`, 'g');
+    closer.lastIndex = this.pos + run.length;
+    const match = closer.exec(text);
+    if (!match) {
+      this.pushText(run, run.length);
+      return;
+    }
+    let code = text.slice(this.pos + run.length, match.index).replace(/\n/g, ' ');
+    if (code.length > 2 && code.startsWith(' ') && code.endsWith(' ') && code.trim() !== '') {
+      code = code.slice(1, -1);
+    }
+    this.pushHtml(`<code class="inline-code">${escapeHtml(code)}</code>`, match.index + run.length - this.pos);
+  }
+
+  private parseDelimiterRun(char: '*' | '_' | '~'): void {
+    const { text } = this;
+    let end = this.pos;
+    while (text[end] === char) end++;
+    const count = end - this.pos;
+
+    const before = this.pos > 0 ? text[this.pos - 1] : undefined;
+    const after = text[end];
+    const leftFlanking = !isWhitespace(after) && (!isPunctuation(after) || isWhitespace(before) || isPunctuation(before));
+    const rightFlanking = !isWhitespace(before) && (!isPunctuation(before) || isWhitespace(after) || isPunctuation(after));
+
+    let canOpen = leftFlanking;
+    let canClose = rightFlanking;
+    if (char === '_') {
+      // No emphasis inside words such as snake_case_names
+      canOpen = leftFlanking && (!rightFlanking || isPunctuation(before));
+      canClose = rightFlanking && (!leftFlanking || isPunctuation(after));
+    }
+    if (char === '~' && count > 2) {
+      canOpen = false;
+      canClose = false;
+    }
+
+    this.pieces.push({ kind: 'delimiter', delimiter: { char, count, original: count, canOpen, canClose } });
+    this.pos = end;
+  }
+
+  private pushBracket(image: boolean, advance: number): void {
+    this.brackets.push(this.pieces.length);
+    this.pieces.push({ kind: 'bracket', bracket: { image, active: true, start: this.pos + advance } });
+    this.pos += advance;
+  }
+
+  private parseCloseBracket(): void {
+    const openerIndex = this.brackets.pop();
+    if (openerIndex === undefined) {
+      this.pushText(']', 1);
+      return;
+    }
+    const opener = this.pieces[openerIndex] as Extract<Piece, { kind: 'bracket' }>;
+    if (!opener.bracket.active) {
+      this.pieces[openerIndex] = { kind: 'text', value: opener.bracket.image ? '![' : '[' };
+      this.pushText(']', 1);
+      return;
+    }
+
+    // Reference labels are matched on their source text
+    const label = this.text.slice(opener.bracket.start, this.pos);
+    const target = this.parseLinkTarget(this.pos + 1, label);
+    if (!target) {
+      this.pieces[openerIndex] = { kind: 'text', value: opener.bracket.image ? '![' : '[' };
+      this.pushText(']', 1);
+      return;
+    }
+
+    this.processEmphasis(openerIndex + 1);
+    const inner = this.pieces.slice(openerIndex + 1);
+    const url = safeUrl(target.url);
+    const title = target.title !== undefined ? ` title="${escapeHtml(target.title)}"` : '';
+
+    let html: string;
+    if (opener.bracket.image) {
+      // Images are not loaded, so a log cannot make the report fetch a URL
+      const alt = escapeHtml(this.plainText(inner)) || 'image';
+      html = url !== undefined
+        ? `<a class="image-link" href="${url}"${title} target="_blank" rel="noopener">${alt}</a>`
+        : alt;
+    } else {
+      const content = this.render(inner);
+      html = url !== undefined
+        ? `<a href="${url}"${title} target="_blank" rel="noopener">${content}</a>`
+        : content;
+      // Links may not contain other links; brackets below an inactive one
+      // were deactivated by an earlier link
+      for (let i = this.brackets.length - 1; i >= 0; i--) {
+        const bracket = (this.pieces[this.brackets[i]] as Extract<Piece, { kind: 'bracket' }>).bracket;
+        if (bracket.image) continue;
+        if (!bracket.active) break;
+        bracket.active = false;
+      }
+    }
+
+    this.pieces.splice(openerIndex);
+    this.pieces.push({ kind: 'html', value: html });
+    this.pos = target.end;
+  }
+
+  // Inline destination and title after "]", or a reference link
+  private parseLinkTarget(start: number, label: string): { url: string; title?: string; end: number } | undefined {
+    const { text } = this;
+    if (text[start] === '(') {
+      let pos = start + 1;
+      const skipSpace = () => {
+        while (pos < text.length && /[ \t\n]/.test(text[pos])) pos++;
+      };
+      skipSpace();
+
+      let url = '';
+      if (text[pos] === '<') {
+        const close = text.indexOf('>', pos);
+        if (close < 0 || text.slice(pos, close).includes('\n')) return undefined;
+        url = text.slice(pos + 1, close);
+        pos = close + 1;
+      } else {
+        let depth = 0;
+        const urlStart = pos;
+        while (pos < text.length && !/[\s\x00-\x1f]/.test(text[pos])) {
+          if (text[pos] === '\\' && ASCII_PUNCTUATION.test(text[pos + 1] || '')) {
+            pos += 2;
+            continue;
+          }
+          if (text[pos] === '(' && ++depth > MAX_LINK_PARENS) return undefined;
+          if (text[pos] === ')') {
+            if (depth === 0) break;
+            depth--;
+          }
+          pos++;
+        }
+        if (depth !== 0) return undefined;
+        url = text.slice(urlStart, pos);
+      }
+
+      const beforeTitle = pos;
+      skipSpace();
+      let title: string | undefined;
+      const quote = text[pos];
+      if (pos > beforeTitle && (quote === '"' || quote === "'" || quote === '(')) {
+        const closeQuote = quote === '(' ? ')' : quote;
+        let end = pos + 1;
+        while (end < text.length && text[end] !== closeQuote) {
+          end += text[end] === '\\' ? 2 : 1;
+        }
+        if (end >= text.length) return undefined;
+        title = unescapeText(text.slice(pos + 1, end));
+        pos = end + 1;
+        skipSpace();
+      }
+      if (text[pos] !== ')') return undefined;
+      return { url: unescapeText(url), title, end: pos + 1 };
+    }
+
+    // [text][label], [label][] and [label]
+    let refLabel = label;
+    let end = start;
+    const full = /^\[((?:\\.|[^\\\]])*)\]/.exec(text.slice(start, start + MAX_LABEL_LENGTH + 2));
+    if (full) {
+      if (full[1].trim() !== '') refLabel = full[1];
+      end = start + full[0].length;
+    }
+    if (refLabel.length > MAX_LABEL_LENGTH) return undefined;
+    const ref = this.refs.get(normalizeLabel(refLabel));
+    return ref ? { url: ref.url, title: ref.title, end } : undefined;
+  }
+
+  private parseAutolink(): void {
+    const rest = this.text.slice(this.pos);
+    const link = AUTOLINK.exec(rest);
+    if (link) {
+      const url = safeUrl(link[1]);
+      const label = escapeHtml(link[1]);
+      this.pushHtml(url !== undefined ? `<a href="${url}" target="_blank" rel="noopener">${label}</a>` : label, link[0].length);
+      return;
+    }
+    const email = EMAIL_AUTOLINK.exec(rest);
+    if (email) {
+      this.pushHtml(`<a href="mailto:${escapeHtml(email[1])}">${escapeHtml(email[1])}</a>`, email[0].length);
+      return;
+    }
+    this.pushText('<', 1);
+  }
+
+  // GFM extended autolinks: bare http(s):// and www. URLs
+  private parseBareUrl(): boolean {
+    const { text } = this;
+    const ch = text[this.pos];
+    if (ch !== 'h' && ch !== 'w') return false;
+    const before = this.pos > 0 ? text[this.pos - 1] : undefined;
+    if (before !== undefined && !/[\s*_~(]/.test(before)) return false;
+    const match = BARE_URL.exec(text.slice(this.pos));
+    if (!match) return false;
+
+    let url = match[0];
+    // Trailing punctuation and unbalanced closing parens end the link
+    while (true) {
+      const last = url[url.length - 1];
+      if (/[?!.,:*_~'"]/.test(last)) {
+        url = url.slice(0, -1);
+      } else if (last === ')' && (url.match(/\)/g) || []).length > (url.match(/\(/g) || []).length) {
+        url = url.slice(0, -1);
+      } else {
+        break;
+      }
+    }
+    if (url === 'www.' || /^https?:\/\/$/.test(url)) return false;
+
+    const href = safeUrl(url.startsWith('www.') ? `http://${url}` : url);
+    this.pushHtml(`<a href="${href}" target="_blank" rel="noopener">${escapeHtml(url)}</a>`, url.length);
+    return true;
+  }
+
+  private parseLineBreak(): void {
+    // Trailing spaces before the break are not content
+    const last = this.pieces[this.pieces.length - 1];
+    if (last?.kind === 'text') last.value = last.value.replace(/ +$/, '');
+    this.pushHtml('<br>\n', 1);
+    while (this.text[this.pos] === ' ') this.pos++;
+  }
+
+  /**
+   * Match emphasis delimiters from `bottom` on, following the CommonMark
+   * "process emphasis" procedure including the rule of three.
+   */
+  private processEmphasis(bottom: number): void {
+    for (let closerIndex = bottom; closerIndex < this.pieces.length; closerIndex++) {
+      const closerPiece = this.pieces[closerIndex];
+      if (closerPiece.kind !== 'delimiter' || !closerPiece.delimiter.canClose) continue;
+      const closer = closerPiece.delimiter;
+
+      while (closer.count > 0) {
+        let openerIndex = -1;
+        for (let i = closerIndex - 1; i >= bottom; i--) {
+          const piece = this.pieces[i];
+          if (piece.kind !== 'delimiter') continue;
+          const opener = piece.delimiter;
+          if (opener.char !== closer.char || !opener.canOpen || opener.count === 0) continue;
+          if (closer.char === '~') {
+            if (opener.count !== closer.count) continue;
+          } else if (
+            (opener.canClose || closer.canOpen) &&
+            (opener.original + closer.original) % 3 === 0 &&
+            !(opener.original % 3 === 0 && closer.original % 3 === 0)
+          ) {
+            continue;
+          }
+          openerIndex = i;
+          break;
+        }
+        if (openerIndex < 0) break;
+
+        const opener = (this.pieces[openerIndex] as Extract<Piece, { kind: 'delimiter' }>).delimiter;
+        const used = closer.char === '~' ? closer.count : closer.count >= 2 && opener.count >= 2 ? 2 : 1;
+        const tag = closer.char === '~' ? 'del' : used === 2 ? 'strong' : 'em';
+        opener.count -= used;
+        closer.count -= used;
+
+        // Delimiters between the pair can no longer match
+        for (let i = openerIndex + 1; i < closerIndex; i++) {
+          const piece = this.pieces[i];
+          if (piece.kind === 'delimiter') {
+            piece.delimiter.canOpen = false;
+            piece.delimiter.canClose = false;
+          }
+        }
+
+        this.pieces.splice(closerIndex, 0, { kind: 'html', value: `</${tag}>` });
+        this.pieces.splice(openerIndex + 1, 0, { kind: 'html', value: `<${tag}>` });
+        closerIndex += 2;
+      }
+    }
+  }
+
+  private plainText(pieces: Piece[]): string {
+    return pieces.map(piece => {
+      switch (piece.kind) {
+        case 'text': return piece.value.replace(/\x00/g, '');
+        case 'html': return piece.value.replace(/<[^>]*>/g, '');
+        case 'delimiter': return piece.delimiter.char.repeat(piece.delimiter.count);
+        case 'bracket': return piece.bracket.image ? '![' : '[';
+      }
+    }).join('');
+  }
+
+  private render(pieces: Piece[]): string {
+    return pieces.map(piece => {
+      switch (piece.kind) {
+        case 'text': return escapeHtml(decodeEntities(piece.value.replace(/\x00&/g, '\x01')).replace(/\x00/g, '')).replace(/\x01/g, '&amp;');
+        case 'html': return piece.value;
+        case 'delimiter': return piece.delimiter.char.repeat(piece.delimiter.count);
+        case 'bracket': return piece.bracket.image ? '![' : '[';
+      }
+    }).join('');
+  }
+}
+
+function renderInline(text: string, refs: References): string {
+  return new InlineParser(text, refs).parse();
+}
+
+// HTML output
+
+function renderBlocks(blocks: Block[], refs: References, tight = false): string {
+  return blocks.map(block => renderBlock(block, refs, tight)).join('\n');
+}
+
+function renderBlock(block: Block, refs: References, tight: boolean): string {
+  switch (block.type) {
+    case 'paragraph':
+      return tight ? renderInline(block.text, refs) : `<p>${renderInline(block.text, refs)}</p>`;
+
+    case 'heading':
+      return `<h${block.level}>${renderInline(block.text, refs)}</h${block.level}>`;
+
+    case 'code': {
+      const lang = unescapeText(block.info.split(/\s+/)[0] || '').replace(/[^\w+#.-]/g, '');
+      return `<pre class="code-block${lang ? ` language-${lang}` : ''}"><code>${highlight(block.text, lang || undefined)}</code></pre>`;
+    }
+
+    case 'rule':
+      return '<hr>';
+
+    case 'blockquote':
+      return `<blockquote>\n${renderBlocks(block.children, refs)}\n</blockquote>`;
+
+    case 'list': {
+      const tag = block.ordered ? 'ol' : 'ul';
+      const start = block.ordered && block.start !== 1 ? ` start="${block.start}"` : '';
+      const isTaskList = block.items.some(item => item.checked !== undefined);
+      const items = block.items.map(item => {
+        const checkbox = item.checked !== undefined
+          ? `<input type="checkbox" disabled${item.checked ? ' checked' : ''}> `
+          : '';
+        const className = item.checked !== undefined ? ' class="task-list-item"' : '';
+        return `<li${className}>${checkbox}${renderBlocks(item.children, refs, block.tight)}</li>`;
+      });
+      return `<${tag}${start}${isTaskList ? ' class="contains-task-list"' : ''}>\n${items.join('\n')}\n</${tag}>`;
+    }
+
+    case 'table': {
+      const cell = (tag: string, text: string, index: number) => {
+        const align = block.align[index];
+        return `<${tag}${align ? ` class="align-${align}"` : ''}>${renderInline(text, refs)}</${tag}>`;
+      };
+      const header = block.header.map((text, index) => cell('th', text, index)).join('');
+      const rows = block.rows
+        .map(row => `<tr>${row.map((text, index) => cell('td', text, index)).join('')}</tr>`)
+        .join('\n');
+      return `<div class="table-wrapper"><table>
+<thead><tr>${header}</tr></thead>${rows ? `\n<tbody>\n${rows}\n</tbody>` : ''}
+</table></div>`;
+    }
+  }
+}
+
+/**
+ * Render Markdown to HTML. All text is escaped; the only markup in the
+ * output is what the Markdown itself produces.
+ */
+export function renderMarkdown(text: string): string {
+  const lines = text.replace(/\r\n?/g, '\n').replace(/\x00/g, '\ufffd').split('\n').map(expandTabs);
+  const refs: References = new Map();
+  const blocks = parseBlocks(lines, refs);
+  return renderBlocks(blocks, refs);
+}
@@ -1,4 +1,22 @@
-import { ChatSession, ChatMessage, MessageContent, TokenUsage, Parser, ParseOptions } from '../types.js';
+import {
+  ChatSession,
+  ChatMessage,
+  ChatThread,
+  ImageSource,
+  ToolResultPart,
+  MessageContent,
+  InterruptionEvent,
+  TokenUsage,
+  ToolResult,
+  Parser,
+  ParseOptions,
+  ParseDiagnostic,
+  FormatDetection,
+  SessionSummary,
+  getToolStatus,
+} from '../types.js';
+import { MIN_CONFIDENCE, scoreJsonLines } from './detection.js';
+import { parseJsonLines, readJsonLines } from './jsonl.js';
 
 // Claude JSONL format types
 interface ClaudeUsage {
@@ -18,14 +36,25 @@ interface ClaudeToolUse {
 interface ClaudeToolResult {
   type: 'tool_result';
   tool_use_id: string;
-  content: string;
+  // MCP tools and sub-agents return a list of blocks
+  content?: string | ClaudeToolResultBlock[];
+  is_error?: boolean;
 }
 
+type ClaudeToolResultBlock = ClaudeTextContent | ClaudeImageContent | { type: string };
+
 interface ClaudeTextContent {
   type: 'text';
   text: string;
 }
 
+interface ClaudeImageContent {
+  type: 'image';
+  source?:
+    | { type: 'base64'; media_type?: string; data?: string }
+    | { type: 'url'; url?: string };
+}
+
 interface ClaudeThinkingContent {
   type: 'thinking';
   thinking: string;
@@ -35,7 +64,8 @@ type ClaudeContent =
   | ClaudeTextContent
   | ClaudeToolUse
   | ClaudeToolResult
-  | ClaudeThinkingContent;
+  | ClaudeThinkingContent
+  | ClaudeImageContent;
 
 interface ClaudeThinkingMetadata {
   level?: string;
@@ -54,8 +84,12 @@ interface ClaudeToolUseResult {
   stderr?: string;
   interrupted?: boolean;
   isImage?: boolean;
+  // Read of an image file
+  type?: string;
+  file?: { base64?: string; type?: string };
   oldTodos?: ClaudeTodo[];
   newTodos?: ClaudeTodo[];
+  agentId?: string;  // Set on Task results by sub-agent aware versions
 }
 
 interface ClaudeMessage {
@@ -66,10 +100,23 @@ interface ClaudeMessage {
   usage?: ClaudeUsage;
 }
 
+interface ClaudeFileBackup {
+  backupFileName: string | null;
+  version: number;
+  backupTime: string;
+}
+
+interface ClaudeFileHistorySnapshot {
+  messageId: string;
+  trackedFileBackups: Record<string, ClaudeFileBackup>;
+  timestamp: string;
+}
+
 interface ClaudeEntry {
   type: 'user' | 'assistant' | 'file-history-snapshot';
   uuid: string;
   parentUuid: string | null;
+  isSidechain?: boolean;
   timestamp: string;
   sessionId: string;
   agentId?: string;
@@ -80,170 +127,589 @@ interface ClaudeEntry {
   thinkingMetadata?: ClaudeThinkingMetadata;
   todos?: ClaudeTodo[];
   toolUseResult?: ClaudeToolUseResult | string;
+  isApiErrorMessage?: boolean;
+  // file-history-snapshot entries
+  messageId?: string;
+  snapshot?: ClaudeFileHistorySnapshot;
+  isSnapshotUpdate?: boolean;
 }
 
+// Failed Bash results start with the command's exit status
+const EXIT_CODE_PATTERN = /^(?:Error: )?Exit code (\d+)/;
+
+// Notice Claude Code records as a user message when Escape stops a turn
+const INTERRUPT_NOTICE = /^\[Request interrupted by user( for tool use)?\]$/;
+
+// State of one conversation thread: the main thread or a sub-agent's
+// sidechain, whose entries are interleaved in the log
+interface ClaudeThreadState {
+  lastTodos?: ClaudeTodo[];
+  toolInterrupted: boolean;  // Last entry was an interrupted tool result
+}
+
+// Running state while converting entries into messages
+interface ClaudeParseState {
+  identifyHarness: boolean;
+  firstEntry?: ClaudeEntry;
+  model?: string;
+  models: string[];
+  totalUsage: TokenUsage;
+  threads: Map<string, ClaudeThreadState>;  // Keyed by agentId, or main
+  lastSnapshot?: string;     // Tracked files and versions of the last checkpoint
+}
+
+// Sidechain entries grouped by the thread they belong to
+interface ClaudeSidechain {
+  root: ClaudeEntry;
+  agentId?: string;
+  messages: ChatMessage[];
+}
+
+// Tools whose calls spawn a sub-agent sidechain
+const SUBAGENT_TOOL_NAMES = ['Task'];
+
+// Top-level entry types Claude Code writes to its session logs
+const CLAUDE_ENTRY_TYPES = ['user', 'assistant', 'system', 'summary', 'file-history-snapshot'];
+
 export class ClaudeParser implements Parser {
-  canParse(firstLine: string): boolean {
-    try {
-      const entry = JSON.parse(firstLine);
-      // Claude entries have type field with known values
-      // file-history-snapshot is a Claude-specific entry type
-      // Other entries have sessionId
-      return (
+  readonly format = 'claude' as const;
+
+  detect(content: string): FormatDetection {
+    // Claude entries have a type field with known values; message entries
+    // carry a sessionId, snapshots a messageId and summaries a leafUuid
+    return scoreJsonLines(
+      content,
+      'Claude',
+      'a type of user/assistant/system/summary/file-history-snapshot',
+      entry =>
         typeof entry.type === 'string' &&
-        ['user', 'assistant', 'file-history-snapshot'].includes(entry.type)
-      );
-    } catch {
-      return false;
-    }
+        CLAUDE_ENTRY_TYPES.includes(entry.type) &&
+        (typeof entry.sessionId === 'string' ||
+          typeof entry.messageId === 'string' ||
+          typeof entry.leafUuid === 'string'),
+    );
+  }
+
+  /** @deprecated Use detect(); kept for callers of earlier releases */
+  canParse(content: string): boolean {
+    return this.detect(content).confidence >= MIN_CONFIDENCE;
   }
 
   parse(content: string, options?: ParseOptions): ChatSession {
-    const lines = content.trim().split('\n').filter(line => line.trim());
-    const entries: ClaudeEntry[] = lines.map(line => JSON.parse(line));
+    const { entries, diagnostics } = parseJsonLines<ClaudeEntry>(content, options);
+    return this.parseEntries(entries, diagnostics, options);
+  }
 
-    // Filter out non-message entries for session metadata
-    const messageEntries = entries.filter(
-      (e): e is ClaudeEntry & { message: ClaudeMessage } =>
-        e.type !== 'file-history-snapshot' && e.message !== undefined
-    );
+  /**
+   * Parse a main session log together with the sub-agent logs Claude Code
+   * writes alongside it (agent-*.jsonl, sharing the parent's sessionId).
+   * Each agent's messages become a thread linked to the Task call that
+   * spawned it.
+   */
+  parseMerged(files: { name: string; content: string }[], options?: ParseOptions): ChatSession {
+    const entries: ClaudeEntry[] = [];
+    const diagnostics: ParseDiagnostic[] = [];
+    const seen = new Set<string>();
+
+    for (const file of files) {
+      const parsed = parseJsonLines<ClaudeEntry>(file.content, options);
+      for (const entry of parsed.entries) {
+        // Sidechains may be present both inline and in their own file
+        if (entry.uuid && seen.has(entry.uuid)) continue;
+        if (entry.uuid) seen.add(entry.uuid);
+        entries.push(entry);
+      }
+      for (const diagnostic of parsed.diagnostics) {
+        diagnostics.push({ ...diagnostic, file: file.name });
+      }
+    }
 
-    // Extract session metadata from first entry
-    const firstEntry = messageEntries[0];
-    const sessionId = firstEntry?.sessionId || 'unknown';
-    const agentId = firstEntry?.agentId;
-    const version = firstEntry?.version;
-    const cwd = firstEntry?.cwd;
-    const gitBranch = firstEntry?.gitBranch;
+    return this.parseEntries(entries, diagnostics, options);
+  }
 
-    // Track model used (may vary per message)
-    let model: string | undefined;
+  private parseEntries(entries: ClaudeEntry[], diagnostics: ParseDiagnostic[], options?: ParseOptions): ChatSession {
+    const state = this.createState(options);
 
-    const totalUsage: TokenUsage = {
-      inputTokens: 0,
-      outputTokens: 0,
-      cacheCreationTokens: 0,
-      cacheReadTokens: 0,
-    };
+    // A log made up only of sidechain entries is a sub-agent transcript on
+    // its own; render it as the main conversation.
+    const hasMainThread = entries.some(e => e.message && !e.isSidechain);
 
     const messages: ChatMessage[] = [];
-    const identifyHarness = options?.identifyHarness !== false;
-    let lastTodos: ClaudeTodo[] | undefined;
-
+    const sidechainMessages = new Map<ClaudeEntry, ChatMessage[]>();
     for (const entry of entries) {
-      if (entry.type === 'file-history-snapshot' || !entry.message) {
-        continue;
+      const entryMessages = this.processEntry(state, entry);
+      if (hasMainThread && entry.isSidechain) {
+        sidechainMessages.set(entry, entryMessages);
+      } else {
+        messages.push(...entryMessages);
       }
+    }
 
-      const msg = entry.message;
+    const threads = this.buildThreads(entries, sidechainMessages);
 
-      // Track model
-      if (msg.model && !model) {
-        model = msg.model;
+    return {
+      ...this.buildSession(state),
+      messages,
+      threads: threads.length > 0 ? threads : undefined,
+      diagnostics,
+    };
+  }
+
+  async *parseStream(input: NodeJS.ReadableStream, options?: ParseOptions): AsyncGenerator<ChatMessage, SessionSummary> {
+    // Threads can only be assembled once the whole log has been read, so
+    // streamed sidechain messages stay inline in chronological order.
+    const diagnostics: ParseDiagnostic[] = [];
+    const state = this.createState(options);
+    let messageCount = 0;
+
+    for await (const entry of readJsonLines<ClaudeEntry>(input, diagnostics, options)) {
+      for (const message of this.processEntry(state, entry)) {
+        messageCount++;
+        yield message;
       }
+    }
 
-      // Accumulate usage
-      let usage: TokenUsage | undefined;
-      if (msg.usage) {
-        usage = {
-          inputTokens: msg.usage.input_tokens || 0,
-          outputTokens: msg.usage.output_tokens || 0,
-          cacheCreationTokens: msg.usage.cache_creation_input_tokens || 0,
-          cacheReadTokens: msg.usage.cache_read_input_tokens || 0,
-        };
-        totalUsage.inputTokens += usage.inputTokens;
-        totalUsage.outputTokens += usage.outputTokens;
-        totalUsage.cacheCreationTokens! += usage.cacheCreationTokens || 0;
-        totalUsage.cacheReadTokens! += usage.cacheReadTokens || 0;
+    return {
+      ...this.buildSession(state),
+      messageCount,
+      diagnostics,
+    };
+  }
+
+  private createState(options?: ParseOptions): ClaudeParseState {
+    return {
+      identifyHarness: options?.identifyHarness !== false,
+      models: [],
+      totalUsage: {
+        inputTokens: 0,
+        outputTokens: 0,
+        cacheCreationTokens: 0,
+        cacheReadTokens: 0,
+      },
+      threads: new Map(),
+    };
+  }
+
+  private threadState(state: ClaudeParseState, entry: ClaudeEntry): ClaudeThreadState {
+    const key = entry.isSidechain ? `agent:${entry.agentId || ''}` : 'main';
+    let thread = state.threads.get(key);
+    if (!thread) {
+      thread = { toolInterrupted: false };
+      state.threads.set(key, thread);
+    }
+    return thread;
+  }
+
+  private buildSession(state: ClaudeParseState): Omit<ChatSession, 'messages'> {
+    const meta = state.firstEntry;
+    return {
+      sessionId: meta?.sessionId || 'unknown',
+      agentId: meta?.agentId,
+      model: state.model,
+      models: state.models.length > 0 ? state.models : undefined,
+      version: meta?.version,
+      cwd: meta?.cwd,
+      gitBranch: meta?.gitBranch,
+      totalUsage: state.totalUsage,
+      source: 'claude',
+    };
+  }
+
+  /**
+   * Convert one log entry into the messages it contributes, updating the
+   * running session state.
+   */
+  private processEntry(state: ClaudeParseState, entry: ClaudeEntry): ChatMessage[] {
+    if (entry.type === 'file-history-snapshot') {
+      return this.processSnapshot(state, entry);
+    }
+    if (!entry.message) {
+      return [];
+    }
+
+    // Session metadata comes from the first main-thread message entry
+    if (!state.firstEntry || (state.firstEntry.isSidechain && !entry.isSidechain)) {
+      state.firstEntry = entry;
+    }
+
+    const msg = entry.message;
+    const messages: ChatMessage[] = [];
+    const identifyHarness = state.identifyHarness;
+    const totalUsage = state.totalUsage;
+    const thread = this.threadState(state, entry);
+
+    // Track model (may vary per message); <synthetic> marks local error replies
+    if (msg.model && !state.model) {
+      state.model = msg.model;
+    }
+    if (msg.model && msg.model !== '<synthetic>' && !state.models.includes(msg.model)) {
+      state.models.push(msg.model);
+    }
+
+    // Accumulate usage
+    let usage: TokenUsage | undefined;
+    if (msg.usage) {
+      usage = {
+        inputTokens: msg.usage.input_tokens || 0,
+        outputTokens: msg.usage.output_tokens || 0,
+        cacheCreationTokens: msg.usage.cache_creation_input_tokens || 0,
+        cacheReadTokens: msg.usage.cache_read_input_tokens || 0,
+      };
+      totalUsage.inputTokens += usage.inputTokens;
+      totalUsage.outputTokens += usage.outputTokens;
+      totalUsage.cacheCreationTokens! += usage.cacheCreationTokens || 0;
+      totalUsage.cacheReadTokens! += usage.cacheReadTokens || 0;
+    }
+
+    // Parse primary message content
+    const content = this.parseContent(msg.content);
+
+    // Interruption notices and API error replies become timeline markers
+    // The notice that follows an interrupted tool result repeats its marker
+    const notice = this.interruptionNotice(entry, content);
+    const toolInterrupted = thread.toolInterrupted;
+    thread.toolInterrupted = false;
+    if (notice) {
+      return toolInterrupted && notice.kind === 'interrupted'
+        ? []
+        : [this.createInterruptionMessage(entry, entry.uuid, notice)];
+    }
+
+    if (entry.toolUseResult && typeof entry.toolUseResult === 'object') {
+      this.applyCommandOutput(content, entry.toolUseResult);
+    }
+    for (const item of content) {
+      if (item.toolResult) {
+        item.toolResult.status = getToolStatus(item.toolResult);
       }
+    }
+
+    const baseMessage: ChatMessage = {
+      id: entry.uuid,
+      role: entry.type as 'user' | 'assistant',
+      content,
+      timestamp: entry.timestamp,
+      model: msg.model,
+      usage,
+    };
+    messages.push(baseMessage);
+
+    // Tool results of calls stopped by the user
+    if (entry.toolUseResult && typeof entry.toolUseResult === 'object' && entry.toolUseResult.interrupted) {
+      const result = content.find(item => item.type === 'tool_result');
+      thread.toolInterrupted = true;
+      messages.push(this.createInterruptionMessage(entry, `${entry.uuid}:interrupted`, {
+        type: 'interruption',
+        kind: 'interrupted',
+        toolUseId: result?.toolResult?.toolUseId,
+      }));
+    }
 
-      // Parse primary message content
-      const content = this.parseContent(msg.content);
-      const baseMessage: ChatMessage = {
-        id: entry.uuid,
-        role: entry.type as 'user' | 'assistant',
-        content,
+    // Thinking metadata as a separate harness "thinking" message
+    if (entry.thinkingMetadata && this.hasMeaningfulThinking(entry.thinkingMetadata)) {
+      const thinkingText = this.formatThinkingMetadata(entry.thinkingMetadata);
+      const thinkingMessage: ChatMessage = {
+        id: `${entry.uuid}:thinking`,
+        role: identifyHarness ? 'system' : 'assistant',
+        content: [{
+          type: 'thinking',
+          text: thinkingText,
+        }],
         timestamp: entry.timestamp,
-        model: msg.model,
-        usage,
       };
-      messages.push(baseMessage);
+      if (identifyHarness) {
+        thinkingMessage.isHarness = true;
+      }
+      messages.push(thinkingMessage);
+    }
 
-      // Thinking metadata as a separate harness "thinking" message
-      if (entry.thinkingMetadata && this.hasMeaningfulThinking(entry.thinkingMetadata)) {
-        const thinkingText = this.formatThinkingMetadata(entry.thinkingMetadata);
-        const thinkingMessage: ChatMessage = {
-          id: `${entry.uuid}:thinking`,
+    // Todo updates from toolUseResult (preferred when available)
+    if (entry.toolUseResult && typeof entry.toolUseResult === 'object') {
+      const todoSummary = this.formatTodosSummary(
+        Array.isArray(entry.toolUseResult.oldTodos) ? entry.toolUseResult.oldTodos : thread.lastTodos,
+        Array.isArray(entry.toolUseResult.newTodos) ? entry.toolUseResult.newTodos : undefined
+      );
+      if (todoSummary) {
+        thread.lastTodos = Array.isArray(entry.toolUseResult.newTodos) ? entry.toolUseResult.newTodos : thread.lastTodos;
+        const todoMessage: ChatMessage = {
+          id: `${entry.uuid}:todos`,
           role: identifyHarness ? 'system' : 'assistant',
           content: [{
-            type: 'thinking',
-            text: thinkingText,
+            type: 'text',
+            text: todoSummary,
           }],
           timestamp: entry.timestamp,
         };
         if (identifyHarness) {
-          thinkingMessage.isHarness = true;
+          todoMessage.isHarness = true;
         }
-        messages.push(thinkingMessage);
+        messages.push(todoMessage);
       }
-
-      // Todo updates from toolUseResult (preferred when available)
-      if (entry.toolUseResult && typeof entry.toolUseResult === 'object') {
-        const todoSummary = this.formatTodosSummary(
-          Array.isArray(entry.toolUseResult.oldTodos) ? entry.toolUseResult.oldTodos : lastTodos,
-          Array.isArray(entry.toolUseResult.newTodos) ? entry.toolUseResult.newTodos : undefined
-        );
-        if (todoSummary) {
-          lastTodos = Array.isArray(entry.toolUseResult.newTodos) ? entry.toolUseResult.newTodos : lastTodos;
-          const todoMessage: ChatMessage = {
-            id: `${entry.uuid}:todos`,
-            role: identifyHarness ? 'system' : 'assistant',
-            content: [{
-              type: 'text',
-              text: todoSummary,
-            }],
-            timestamp: entry.timestamp,
-          };
-          if (identifyHarness) {
-            todoMessage.isHarness = true;
-          }
-          messages.push(todoMessage);
-        }
-      } else if (Array.isArray(entry.todos)) {
-        // Fallback: detect changes from top-level todos field
-        const todoSummary = this.formatTodosSummary(lastTodos, entry.todos);
-        if (todoSummary) {
-          lastTodos = entry.todos;
-          const todoMessage: ChatMessage = {
-            id: `${entry.uuid}:todos`,
-            role: identifyHarness ? 'system' : 'assistant',
-            content: [{
-              type: 'text',
-              text: todoSummary,
-            }],
-            timestamp: entry.timestamp,
-          };
-          if (identifyHarness) {
-            todoMessage.isHarness = true;
-          }
-          messages.push(todoMessage);
+    } else if (Array.isArray(entry.todos)) {
+      // Fallback: detect changes from top-level todos field
+      const todoSummary = this.formatTodosSummary(thread.lastTodos, entry.todos);
+      if (todoSummary) {
+        thread.lastTodos = entry.todos;
+        const todoMessage: ChatMessage = {
+          id: `${entry.uuid}:todos`,
+          role: identifyHarness ? 'system' : 'assistant',
+          content: [{
+            type: 'text',
+            text: todoSummary,
+          }],
+          timestamp: entry.timestamp,
+        };
+        if (identifyHarness) {
+          todoMessage.isHarness = true;
         }
+        messages.push(todoMessage);
       }
     }
 
+    return messages;
+  }
+
+  private parseToolOutcome(item: ClaudeToolResult, text: string): Partial<ToolResult> {
+    if (!item.is_error) {
+      return {};
+    }
+    const exitCode = text.match(EXIT_CODE_PATTERN);
     return {
-      sessionId,
-      agentId,
-      model,
-      version,
-      cwd,
-      gitBranch,
-      messages,
-      totalUsage,
-      source: 'claude',
+      isError: true,
+      exitCode: exitCode ? Number(exitCode[1]) : undefined,
     };
   }
 
+  /**
+   * Copy the separate stdout/stderr streams Claude Code records for Bash
+   * calls, and the image of an image Read, onto the tool result they
+   * belong to.
+   */
+  private applyCommandOutput(content: MessageContent[], output: ClaudeToolUseResult): void {
+    const result = content.find(item => item.type === 'tool_result')?.toolResult;
+    if (!result) return;
+    if (typeof output.stdout === 'string') result.stdout = output.stdout;
+    if (typeof output.stderr === 'string') result.stderr = output.stderr;
+    if (output.interrupted) result.interrupted = true;
+    // Older versions keep the image of a Read only in toolUseResult
+    if (!result.parts?.some(part => part.type === 'image') &&
+        output.type === 'image' && typeof output.file?.base64 === 'string') {
+      result.parts = [
+        ...(result.parts || (result.content ? [{ type: 'text' as const, text: result.content }] : [])),
+        { type: 'image', image: { mediaType: output.file.type, data: output.file.base64 } },
+      ];
+    }
+  }
+
+  private parseImage(item: ClaudeImageContent): ImageSource {
+    const source = item.source;
+    if (source?.type === 'base64') {
+      return { mediaType: source.media_type, data: source.data };
+    }
+    if (source?.type === 'url') {
+      return { url: source.url };
+    }
+    return {};
+  }
+
+  /**
+   * Tool results hold either a string or a list of blocks. A list is kept
+   * as parts in order, and its text blocks are joined as the content.
+   */
+  private parseToolResultContent(content: ClaudeToolResult['content']): { text: string; parts?: ToolResultPart[] } {
+    if (typeof content === 'string') {
+      return { text: content };
+    }
+    if (!Array.isArray(content)) {
+      return { text: '' };
+    }
+    const parts = content.filter(block => block && typeof block === 'object').map((block): ToolResultPart => {
+      if (block.type === 'text' && typeof (block as ClaudeTextContent).text === 'string') {
+        return { type: 'text', text: (block as ClaudeTextContent).text };
+      }
+      if (block.type === 'image') {
+        return { type: 'image', image: this.parseImage(block as ClaudeImageContent) };
+      }
+      return { type: 'other', blockType: String(block.type), text: JSON.stringify(block, null, 2) };
+    });
+    const text = parts.filter(part => part.type === 'text').map(part => part.text).join('\n');
+    return { text, parts };
+  }
+
+  /**
+   * Convert a file-history snapshot into a checkpoint marker. Snapshots are
+   * taken before every prompt; only those that back up files, and whose
+   * files or versions differ from the previous checkpoint, are kept.
+   */
+  private processSnapshot(state: ClaudeParseState, entry: ClaudeEntry): ChatMessage[] {
+    const snapshot = entry.snapshot;
+    const backups = Object.entries(snapshot?.trackedFileBackups || {});
+    if (!snapshot || backups.length === 0) {
+      return [];
+    }
+
+    const key = backups.map(([path, backup]) => `${path}@${backup.version}`).sort().join('\n');
+    if (key === state.lastSnapshot) {
+      return [];
+    }
+    state.lastSnapshot = key;
+
+    const messageId = snapshot.messageId || entry.messageId;
+    return [{
+      id: `${messageId}:checkpoint${entry.isSnapshotUpdate ? ':update' : ''}`,
+      role: 'system',
+      content: [],
+      timestamp: snapshot.timestamp,
+      event: {
+        type: 'checkpoint',
+        files: backups.map(([path]) => path).sort(),
+        messageId,
+      },
+    }];
+  }
+
+  private interruptionNotice(entry: ClaudeEntry, content: MessageContent[]): InterruptionEvent | undefined {
+    const text = content.length === 1 && content[0].type === 'text' ? content[0].text?.trim() : undefined;
+    if (entry.isApiErrorMessage) {
+      return { type: 'interruption', kind: 'error', detail: text };
+    }
+    if (entry.type === 'user' && text && INTERRUPT_NOTICE.test(text)) {
+      return { type: 'interruption', kind: 'interrupted', detail: text.slice(1, -1) };
+    }
+    return undefined;
+  }
+
+  private createInterruptionMessage(entry: ClaudeEntry, id: string, event: InterruptionEvent): ChatMessage {
+    return {
+      id,
+      role: 'system',
+      content: [],
+      timestamp: entry.timestamp,
+      event,
+    };
+  }
+
+  /**
+   * Group sidechain messages into threads by walking each entry's parentUuid
+   * chain back to the thread root, then link each thread to the tool call
+   * that spawned it.
+   */
+  private buildThreads(entries: ClaudeEntry[], sidechainMessages: Map<ClaudeEntry, ChatMessage[]>): ChatThread[] {
+    if (sidechainMessages.size === 0) {
+      return [];
+    }
+
+    const byUuid = new Map<string, ClaudeEntry>();
+    for (const entry of entries) {
+      if (entry.uuid) {
+        byUuid.set(entry.uuid, entry);
+      }
+    }
+
+    const findRoot = (entry: ClaudeEntry): ClaudeEntry => {
+      const seen = new Set<string>();
+      let current = entry;
+      while (current.parentUuid && !seen.has(current.parentUuid)) {
+        seen.add(current.parentUuid);
+        const parent = byUuid.get(current.parentUuid);
+        if (!parent || !parent.isSidechain) break;
+        current = parent;
+      }
+      return current;
+    };
+
+    const sidechains = new Map<string, ClaudeSidechain>();
+    for (const [entry, messages] of sidechainMessages) {
+      const root = findRoot(entry);
+      const key = entry.agentId || root.uuid;
+      let sidechain = sidechains.get(key);
+      if (!sidechain) {
+        sidechain = { root, agentId: entry.agentId, messages: [] };
+        sidechains.set(key, sidechain);
+      }
+      sidechain.messages.push(...messages);
+    }
+
+    // Candidate spawning calls from the main thread
+    const spawnCalls: { id: string; prompt?: string; entryUuid: string }[] = [];
+    const callByAgentId = new Map<string, string>();
+    for (const entry of entries) {
+      if (entry.isSidechain || !entry.message || typeof entry.message.content === 'string') continue;
+      for (const item of entry.message.content) {
+        if (item.type === 'tool_use' && SUBAGENT_TOOL_NAMES.includes(item.name)) {
+          const prompt = typeof item.input?.prompt === 'string' ? item.input.prompt : undefined;
+          spawnCalls.push({ id: item.id, prompt, entryUuid: entry.uuid });
+        } else if (
+          item.type === 'tool_result' &&
+          entry.toolUseResult &&
+          typeof entry.toolUseResult === 'object' &&
+          typeof entry.toolUseResult.agentId === 'string'
+        ) {
+          callByAgentId.set(entry.toolUseResult.agentId, item.tool_use_id);
+        }
+      }
+    }
+
+    const claimed = new Set<string>();
+    const threads: ChatThread[] = [];
+
+    for (const [key, sidechain] of sidechains) {
+      const rootPrompt = this.extractPromptText(sidechain.root);
+
+      // Prefer an explicit agentId link, then the root's parent entry, then
+      // a Task call whose prompt matches the thread's opening message.
+      let parentToolCallId = sidechain.agentId ? callByAgentId.get(sidechain.agentId) : undefined;
+      if (!parentToolCallId) {
+        const unclaimed = spawnCalls.filter(call => !claimed.has(call.id));
+        const fromParent = unclaimed.filter(call => call.entryUuid === sidechain.root.parentUuid);
+        const match =
+          fromParent.find(call => call.prompt === rootPrompt) ||
+          fromParent[0] ||
+          unclaimed.find(call => rootPrompt !== undefined && call.prompt === rootPrompt);
+        parentToolCallId = match?.id;
+      }
+      if (parentToolCallId) {
+        claimed.add(parentToolCallId);
+      }
+
+      threads.push({
+        id: key,
+        agentId: sidechain.agentId,
+        parentToolCallId,
+        messages: sidechain.messages,
+        totalUsage: this.sumUsage(sidechain.messages),
+      });
+    }
+
+    return threads;
+  }
+
+  private extractPromptText(entry: ClaudeEntry): string | undefined {
+    const content = entry.message?.content;
+    if (typeof content === 'string') {
+      return content;
+    }
+    const text = content?.find((item): item is ClaudeTextContent => item.type === 'text');
+    return text?.text;
+  }
+
+  private sumUsage(messages: ChatMessage[]): TokenUsage {
+    const total: TokenUsage = {
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheCreationTokens: 0,
+      cacheReadTokens: 0,
+    };
+    for (const message of messages) {
+      if (!message.usage) continue;
+      total.inputTokens += message.usage.inputTokens;
+      total.outputTokens += message.usage.outputTokens;
+      total.cacheCreationTokens! += message.usage.cacheCreationTokens || 0;
+      total.cacheReadTokens! += message.usage.cacheReadTokens || 0;
+    }
+    return total;
+  }
+
   private parseContent(content: string | ClaudeContent[]): MessageContent[] {
     if (typeof content === 'string') {
       return [{ type: 'text', text: content }];
@@ -267,13 +733,18 @@ export class ClaudeParser implements Parser {
           },
         };
       } else if (item.type === 'tool_result') {
+        const { text, parts } = this.parseToolResultContent(item.content);
         return {
           type: 'tool_result' as const,
           toolResult: {
             toolUseId: item.tool_use_id,
-            content: item.content,
+            content: text,
+            parts,
+            ...this.parseToolOutcome(item, text),
           },
         };
+      } else if (item.type === 'image') {
+        return { type: 'image' as const, image: this.parseImage(item) };
       }
       return { type: 'text' as const, text: JSON.stringify(item) };
     });
@@ -1,4 +1,21 @@
-import { ChatSession, ChatMessage, MessageContent, TokenUsage, Parser, ParseOptions } from '../types.js';
+import {
+  ChatSession,
+  ChatMessage,
+  MessageContent,
+  Parser,
+  ParseOptions,
+  ParseDiagnostic,
+  FormatDetection,
+  RateLimitSample,
+  RateLimitWindow,
+  SessionSummary,
+  TokenUsage,
+  ToolResult,
+  TurnContext,
+  getToolStatus,
+} from '../types.js';
+import { MIN_CONFIDENCE, scoreJsonLines } from './detection.js';
+import { parseJsonLines, readJsonLines } from './jsonl.js';
 
 // Codex JSONL format types
 interface CodexSessionMeta {
@@ -22,7 +39,13 @@ interface CodexTextContent {
   text: string;
 }
 
-type CodexContent = CodexTextContent;
+// Pasted or attached images, as a data: URL or a remote URL
+interface CodexImageContent {
+  type: 'input_image';
+  image_url?: string;
+}
+
+type CodexContent = CodexTextContent | CodexImageContent;
 
 interface CodexResponseItem {
   type: 'response_item';
@@ -39,9 +62,32 @@ interface CodexResponseItem {
     input?: string;
     summary?: { type: string; text: string }[];
     encrypted_content?: string;
+    ghost_commit?: {
+      id: string;
+      parent?: string;
+      preexisting_untracked_files?: string[];
+      preexisting_untracked_dirs?: string[];
+    };
+  };
+}
+
+// JSON form of exec tool output (apply_patch, older shell calls)
+interface CodexExecResult {
+  output: string;
+  metadata?: {
+    exit_code?: number;
+    duration_seconds?: number;
   };
 }
 
+interface CodexTokenUsage {
+  input_tokens: number;
+  cached_input_tokens: number;
+  output_tokens: number;
+  reasoning_output_tokens?: number;
+  total_tokens: number;
+}
+
 interface CodexEventEntry {
   type: 'event_msg';
   timestamp: string;
@@ -49,18 +95,26 @@ interface CodexEventEntry {
     type?: string;
     message?: string;
     text?: string;
+    reason?: string;
     info?: {
-      total_token_usage?: {
-        input_tokens: number;
-        cached_input_tokens: number;
-        output_tokens: number;
-        reasoning_output_tokens?: number;
-        total_tokens: number;
-      };
+      total_token_usage?: CodexTokenUsage;
     };
   };
 }
 
+interface CodexTurnContext {
+  type: 'turn_context';
+  timestamp: string;
+  payload: {
+    cwd?: string;
+    model?: string;
+    effort?: string;
+    summary?: string;
+    approval_policy?: string;
+    sandbox_policy?: { type?: string } | string;
+  };
+}
+
 interface CodexEntryBase {
   type: string;
   timestamp: string;
@@ -69,236 +123,608 @@ interface CodexEntryBase {
 
 type CodexEntry = CodexResponseItem | CodexEventEntry | CodexEntryBase;
 
+interface CodexRateLimitWindow {
+  used_percent: number;
+  window_minutes?: number;
+  resets_at?: number;           // Unix seconds
+  resets_in_seconds?: number;   // Older CLI versions
+}
+
 interface CodexTokenCountEvent extends CodexEventEntry {
   payload: {
     type: 'token_count';
     info?: {
-      total_token_usage?: {
-        input_tokens: number;
-        cached_input_tokens: number;
-        output_tokens: number;
-        reasoning_output_tokens?: number;
-        total_tokens: number;
+      total_token_usage?: CodexTokenUsage;
+      last_token_usage?: CodexTokenUsage;
+    };
+    rate_limits?: {
+      primary?: CodexRateLimitWindow;
+      secondary?: CodexRateLimitWindow;
+      credits?: {
+        has_credits: boolean;
+        unlimited: boolean;
+        balance?: string;
       };
     };
   };
 }
 
+// Running state while converting entries into messages
+interface CodexParseState {
+  identifyHarness: boolean;
+  meta?: CodexSessionMeta;
+  lastTokenUsage?: CodexTokenUsage;
+  pendingUsage?: TokenUsage;  // Delta not yet attached to an assistant message
+  userMessageCount: number;
+  initialContext?: TurnContext;
+  context?: TurnContext;
+  models: string[];
+  rateLimits: RateLimitSample[];
+  latestRateLimits?: RateLimitSample;  // Newest repeat of the last sample, closing the timeline
+}
+
+// Turn settings whose mid-session changes get a timeline marker
+const MARKED_CONTEXT_KEYS: (keyof TurnContext)[] = ['model', 'effort', 'approvalPolicy', 'sandboxPolicy'];
+
+// Top-level entry types Codex CLI writes to its rollout logs
+const CODEX_ENTRY_TYPES = ['session_meta', 'response_item', 'event_msg', 'turn_context', 'compacted'];
+
 export class CodexParser implements Parser {
-  canParse(firstLine: string): boolean {
-    try {
-      const entry = JSON.parse(firstLine);
-      // Codex files start with session_meta or have originator: codex_cli_rs
-      return (
-        entry.type === 'session_meta' ||
-        (entry.payload?.originator === 'codex_cli_rs')
-      );
-    } catch {
-      return false;
-    }
+  readonly format = 'codex' as const;
+
+  detect(content: string): FormatDetection {
+    // Every Codex entry is a timestamped envelope around a typed payload
+    return scoreJsonLines(
+      content,
+      'Codex',
+      'session_meta/response_item/event_msg/turn_context entries with a payload',
+      entry =>
+        typeof entry.type === 'string' &&
+        CODEX_ENTRY_TYPES.includes(entry.type) &&
+        entry.payload !== null &&
+        typeof entry.payload === 'object',
+    );
+  }
+
+  /** @deprecated Use detect(); kept for callers of earlier releases */
+  canParse(content: string): boolean {
+    return this.detect(content).confidence >= MIN_CONFIDENCE;
   }
 
   parse(content: string, options?: ParseOptions): ChatSession {
-    const lines = content.trim().split('\n').filter(line => line.trim());
-    const entries: CodexEntry[] = lines.map(line => JSON.parse(line));
-
-    // Extract session metadata
-    const metaEntry = entries.find(e => e.type === 'session_meta') as CodexSessionMeta | undefined;
-    const sessionId = metaEntry?.payload?.id || 'unknown';
-    const cwd = metaEntry?.payload?.cwd;
-    const version = metaEntry?.payload?.cli_version;
-    const gitBranch = metaEntry?.payload?.git?.branch;
-
-    // Extract token usage from the last token_count event
-    const tokenCountEvents = entries.filter(
-      (e): e is CodexTokenCountEvent =>
-        e.type === 'event_msg' &&
-        (e.payload as { type?: string })?.type === 'token_count'
-    );
+    const { entries, diagnostics } = parseJsonLines<CodexEntry>(content, options);
+    const state = this.createState(options);
+
+    const messages: ChatMessage[] = [];
+    for (const entry of entries) {
+      messages.push(...this.processEntry(state, entry));
+    }
+
+    return {
+      ...this.buildSession(state),
+      messages,
+      diagnostics,
+    };
+  }
+
+  async *parseStream(input: NodeJS.ReadableStream, options?: ParseOptions): AsyncGenerator<ChatMessage, SessionSummary> {
+    const diagnostics: ParseDiagnostic[] = [];
+    const state = this.createState(options);
+    let messageCount = 0;
+
+    for await (const entry of readJsonLines<CodexEntry>(input, diagnostics, options)) {
+      for (const message of this.processEntry(state, entry)) {
+        messageCount++;
+        yield message;
+      }
+    }
+
+    return {
+      ...this.buildSession(state),
+      messageCount,
+      diagnostics,
+    };
+  }
+
+  private createState(options?: ParseOptions): CodexParseState {
+    return {
+      identifyHarness: options?.identifyHarness !== false,
+      userMessageCount: 0,
+      models: [],
+      rateLimits: [],
+    };
+  }
 
-    const lastTokenEvent = tokenCountEvents[tokenCountEvents.length - 1];
-    const tokenInfo = lastTokenEvent?.payload?.info?.total_token_usage;
+  private buildSession(state: CodexParseState): Omit<ChatSession, 'messages'> {
+    const meta = state.meta?.payload;
+    // Totals come from the last token_count event, which is cumulative
+    const tokenInfo = state.lastTokenUsage;
 
-    const totalUsage: TokenUsage = {
-      inputTokens: tokenInfo?.input_tokens || 0,
-      outputTokens: tokenInfo?.output_tokens || 0,
-      cacheReadTokens: tokenInfo?.cached_input_tokens || 0,
+    return {
+      sessionId: meta?.id || 'unknown',
+      model: state.models[0],
+      models: state.models.length > 0 ? state.models : undefined,
+      turnContext: state.initialContext,
+      version: meta?.cli_version,
+      cwd: meta?.cwd,
+      gitBranch: meta?.git?.branch,
+      gitCommit: meta?.git?.commit_hash,
+      repositoryUrl: meta?.git?.repository_url,
+      rateLimits: state.rateLimits.length > 0
+        ? [...state.rateLimits, ...(state.latestRateLimits ? [state.latestRateLimits] : [])]
+        : undefined,
+      totalUsage: {
+        inputTokens: tokenInfo?.input_tokens || 0,
+        outputTokens: tokenInfo?.output_tokens || 0,
+        cacheReadTokens: tokenInfo?.cached_input_tokens || 0,
+        reasoningTokens: tokenInfo?.reasoning_output_tokens || 0,
+      },
+      source: 'codex',
     };
+  }
 
+  /**
+   * Convert one log entry into the messages it contributes, updating the
+   * running session state.
+   */
+  private processEntry(state: CodexParseState, entry: CodexEntry): ChatMessage[] {
     const messages: ChatMessage[] = [];
+    const identifyHarness = state.identifyHarness;
 
-    const identifyHarness = options?.identifyHarness !== false;
-    let userMessageCount = 0;
+    if (entry.type === 'session_meta') {
+      if (!state.meta) {
+        state.meta = entry as CodexSessionMeta;
+      }
+      return messages;
+    }
 
-    for (const entry of entries) {
-      if (entry.type === 'response_item') {
-        const item = entry as CodexResponseItem;
-        const payload = item.payload;
-
-        if (payload.type === 'message' && payload.role && payload.content) {
-          let isHarness = false;
-          if (payload.role === 'user') {
-            userMessageCount++;
-            if (identifyHarness && userMessageCount <= 2) {
-              isHarness = true;
-            }
-          }
+    if (entry.type === 'turn_context') {
+      const contextEvent = this.applyTurnContext(state, entry as CodexTurnContext);
+      if (contextEvent) {
+        messages.push(contextEvent);
+      }
+      return messages;
+    }
 
-          const content = this.parseContent(payload.content);
-          if (content.length > 0) {
-            const message: ChatMessage = {
-              id: item.timestamp,
-              role: payload.role,
-              content,
-              timestamp: item.timestamp,
-            };
-            if (isHarness) {
-              message.isHarness = true;
-            }
-            messages.push(message);
-          }
-        }
+    if (entry.type === 'response_item') {
+      const item = entry as CodexResponseItem;
+      const payload = item.payload;
 
-        if (payload.type === 'function_call' && payload.name && payload.call_id) {
-          let parsedArgs: Record<string, unknown> = {};
-          try {
-            parsedArgs = JSON.parse(payload.arguments || '{}');
-          } catch {
-            parsedArgs = { raw: payload.arguments };
+      if (payload.type === 'message' && payload.role && payload.content) {
+        let isHarness = false;
+        if (payload.role === 'user') {
+          state.userMessageCount++;
+          if (identifyHarness && state.userMessageCount <= 2) {
+            isHarness = true;
           }
+        }
 
-          messages.push({
+        const content = this.parseContent(payload.content);
+        if (content.length > 0) {
+          const message: ChatMessage = {
             id: item.timestamp,
-            role: 'assistant',
-            content: [{
-              type: 'tool_use',
-              toolCall: {
-                id: payload.call_id,
-                name: payload.name,
-                input: parsedArgs,
-              },
-            }],
+            role: payload.role,
+            content,
             timestamp: item.timestamp,
-          });
+          };
+          if (isHarness) {
+            message.isHarness = true;
+          }
+          messages.push(message);
         }
+      }
 
-        if (payload.type === 'function_call_output' && payload.call_id) {
-          messages.push({
-            id: item.timestamp,
-            role: 'user',
-            content: [{
-              type: 'tool_result',
-              toolResult: {
-                toolUseId: payload.call_id,
-                content: payload.output || '',
-              },
-            }],
-            timestamp: item.timestamp,
-          });
+      // Codex snapshots the worktree as a ghost commit before each turn
+      if (payload.type === 'ghost_snapshot' && payload.ghost_commit?.id) {
+        const ghost = payload.ghost_commit;
+        const untracked = [
+          ...(ghost.preexisting_untracked_dirs || []).map(dir => `${dir}/`),
+          ...(ghost.preexisting_untracked_files || []),
+        ];
+        messages.push({
+          id: `${item.timestamp}:checkpoint`,
+          role: 'system',
+          content: [],
+          timestamp: item.timestamp,
+          event: {
+            type: 'checkpoint',
+            commit: ghost.id,
+            parentCommit: ghost.parent,
+            untrackedFiles: untracked.length > 0 ? untracked : undefined,
+          },
+        });
+      }
+
+      if (payload.type === 'function_call' && payload.name && payload.call_id) {
+        let parsedArgs: Record<string, unknown> = {};
+        try {
+          parsedArgs = JSON.parse(payload.arguments || '{}');
+        } catch {
+          parsedArgs = { raw: payload.arguments };
         }
 
-        if (payload.type === 'custom_tool_call' && payload.call_id) {
-          let parsedInput: Record<string, unknown> = {};
-          if (typeof payload.input === 'string' && payload.input.length > 0) {
-            try {
-              parsedInput = JSON.parse(payload.input);
-            } catch {
-              parsedInput = { raw: payload.input };
-            }
-          }
+        messages.push({
+          id: item.timestamp,
+          role: 'assistant',
+          content: [{
+            type: 'tool_use',
+            toolCall: {
+              id: payload.call_id,
+              name: payload.name,
+              input: parsedArgs,
+            },
+          }],
+          timestamp: item.timestamp,
+        });
+      }
 
-          messages.push({
-            id: item.timestamp,
-            role: 'assistant',
-            content: [{
-              type: 'tool_use',
-              toolCall: {
-                id: payload.call_id,
-                name: payload.name || 'custom_tool_call',
-                input: parsedInput,
-              },
-            }],
-            timestamp: item.timestamp,
-          });
+      if (payload.type === 'function_call_output' && payload.call_id) {
+        messages.push({
+          id: item.timestamp,
+          role: 'user',
+          content: [{
+            type: 'tool_result',
+            toolResult: {
+              toolUseId: payload.call_id,
+              content: payload.output || '',
+              ...this.parseExecOutput(payload.output || ''),
+            },
+          }],
+          timestamp: item.timestamp,
+        });
+      }
+
+      if (payload.type === 'custom_tool_call' && payload.call_id) {
+        let parsedInput: Record<string, unknown> = {};
+        if (typeof payload.input === 'string' && payload.input.length > 0) {
+          try {
+            parsedInput = JSON.parse(payload.input);
+          } catch {
+            parsedInput = { raw: payload.input };
+          }
         }
 
-        if (payload.type === 'custom_tool_call_output' && payload.call_id) {
-          let contentText = payload.output || '';
-          if (contentText) {
-            try {
-              const parsed = JSON.parse(contentText);
-              if (typeof parsed === 'string') {
-                contentText = parsed;
-              } else if (parsed && typeof parsed === 'object' && 'output' in parsed && typeof (parsed as { output?: unknown }).output === 'string') {
-                contentText = (parsed as { output: string }).output;
-              } else {
-                contentText = JSON.stringify(parsed, null, 2);
-              }
-            } catch {
-              // leave contentText as-is if it isn't valid JSON
+        messages.push({
+          id: item.timestamp,
+          role: 'assistant',
+          content: [{
+            type: 'tool_use',
+            toolCall: {
+              id: payload.call_id,
+              name: payload.name || 'custom_tool_call',
+              input: parsedInput,
+            },
+          }],
+          timestamp: item.timestamp,
+        });
+      }
+
+      if (payload.type === 'custom_tool_call_output' && payload.call_id) {
+        let contentText = payload.output || '';
+        let exitCode: number | undefined;
+        if (contentText) {
+          try {
+            const parsed = JSON.parse(contentText);
+            if (typeof parsed === 'string') {
+              contentText = parsed;
+            } else if (parsed && typeof parsed === 'object' && 'output' in parsed && typeof (parsed as { output?: unknown }).output === 'string') {
+              contentText = (parsed as { output: string }).output;
+              exitCode = (parsed as CodexExecResult).metadata?.exit_code;
+            } else {
+              contentText = JSON.stringify(parsed, null, 2);
             }
+          } catch {
+            // leave contentText as-is if it isn't valid JSON
           }
-
-          messages.push({
-            id: item.timestamp,
-            role: 'user',
-            content: [{
-              type: 'tool_result',
-              toolResult: {
-                toolUseId: payload.call_id,
-                content: contentText,
-              },
-            }],
-            timestamp: item.timestamp,
-          });
         }
 
-        if (payload.type === 'reasoning') {
-          // Skip reasoning response_items; we render the corresponding
-          // agent_reasoning event_msg entries instead to avoid duplicates.
-          continue;
+        messages.push({
+          id: item.timestamp,
+          role: 'user',
+          content: [{
+            type: 'tool_result',
+            toolResult: {
+              toolUseId: payload.call_id,
+              content: contentText,
+              exitCode,
+              isError: exitCode !== undefined && exitCode !== 0 ? true : undefined,
+            },
+          }],
+          timestamp: item.timestamp,
+        });
+      }
+
+      if (payload.type === 'reasoning') {
+        // Skip reasoning response_items; we render the corresponding
+        // agent_reasoning event_msg entries instead to avoid duplicates.
+        return messages;
+      }
+    } else if (entry.type === 'event_msg') {
+      const event = entry as CodexEventEntry;
+      const payload = event.payload;
+      if (!payload || typeof payload.type !== 'string') {
+        return messages;
+      }
+
+      if (payload.type === 'token_count') {
+        const { info, rate_limits: rateLimits } = (event as CodexTokenCountEvent).payload;
+        if (rateLimits) {
+          this.recordRateLimits(state, entry.timestamp, rateLimits);
         }
-      } else if (entry.type === 'event_msg') {
-        const event = entry as CodexEventEntry;
-        const payload = event.payload;
-        if (!payload || typeof payload.type !== 'string') {
-          continue;
+        if (info?.total_token_usage) {
+          const delta = this.usageDelta(state.lastTokenUsage, info.total_token_usage, info.last_token_usage);
+          state.lastTokenUsage = info.total_token_usage;
+          if (delta) {
+            state.pendingUsage = state.pendingUsage ? this.addUsage(state.pendingUsage, delta) : delta;
+          }
         }
+        return messages;
+      }
+
+      if (payload.type === 'user_message' || payload.type === 'agent_message') {
+        return messages;
+      }
+
+      // Escape in the TUI aborts the turn with reason "interrupted"
+      if (payload.type === 'turn_aborted' || payload.type === 'error') {
+        messages.push({
+          id: `${event.timestamp}:${payload.type}`,
+          role: 'system',
+          content: [],
+          timestamp: event.timestamp,
+          event: {
+            type: 'interruption',
+            kind: payload.type === 'error' ? 'error' : (payload.reason === 'interrupted' ? 'interrupted' : 'aborted'),
+            reason: payload.reason,
+            detail: payload.message,
+          },
+        });
+        return messages;
+      }
 
-        if (payload.type === 'token_count') {
-          continue;
+      if (payload.type === 'agent_reasoning' && payload.text) {
+        const message: ChatMessage = {
+          id: event.timestamp,
+          role: identifyHarness ? 'system' : 'assistant',
+          content: [{
+            type: 'thinking',
+            text: payload.text,
+          }],
+          timestamp: event.timestamp,
+        };
+        if (identifyHarness) {
+          message.isHarness = true;
         }
+        messages.push(message);
+      }
+    }
+
+    // Codex logs token_count before the response items it accounts for, so
+    // a pending delta belongs to the next assistant response item
+    if (entry.type === 'response_item' && state.pendingUsage) {
+      const producer = messages.find(message => message.role === 'assistant');
+      if (producer) {
+        producer.usage = state.pendingUsage;
+        state.pendingUsage = undefined;
+      }
+    }
 
-        if (payload.type === 'user_message' || payload.type === 'agent_message') {
-          continue;
+    // Attribute model output to the model of the current turn
+    const model = state.context?.model;
+    if (model) {
+      for (const message of messages) {
+        if (message.role !== 'user') {
+          message.model = model;
         }
+      }
+    }
 
-        if (payload.type === 'agent_reasoning' && payload.text) {
-          const message: ChatMessage = {
-            id: event.timestamp,
-            role: identifyHarness ? 'system' : 'assistant',
-            content: [{
-              type: 'thinking',
-              text: payload.text,
-            }],
-            timestamp: event.timestamp,
-          };
-          if (identifyHarness) {
-            message.isHarness = true;
-          }
-          messages.push(message);
+    for (const message of messages) {
+      for (const item of message.content) {
+        if (item.toolResult) {
+          item.toolResult.status = getToolStatus(item.toolResult);
+        }
+      }
+    }
+
+    return messages;
+  }
+
+  /**
+   * Append a rate-limit sample, skipping events that repeat the previous
+   * usage; Codex reports the limits with every token_count. The newest
+   * repeat is kept so the timeline extends to the end of the session.
+   */
+  private recordRateLimits(
+    state: CodexParseState,
+    timestamp: string,
+    rateLimits: NonNullable<CodexTokenCountEvent['payload']['rate_limits']>,
+  ): void {
+    const sample: RateLimitSample = {
+      timestamp,
+      primary: this.convertRateLimitWindow(rateLimits.primary, timestamp),
+      secondary: this.convertRateLimitWindow(rateLimits.secondary, timestamp),
+    };
+    if (rateLimits.credits) {
+      sample.credits = {
+        hasCredits: rateLimits.credits.has_credits,
+        unlimited: rateLimits.credits.unlimited,
+        balance: rateLimits.credits.balance,
+      };
+    }
+
+    const previous = state.rateLimits[state.rateLimits.length - 1];
+    if (
+      previous &&
+      this.sameWindowUsage(previous.primary, sample.primary) &&
+      this.sameWindowUsage(previous.secondary, sample.secondary) &&
+      previous.credits?.balance === sample.credits?.balance
+    ) {
+      state.latestRateLimits = sample;
+      return;
+    }
+    state.rateLimits.push(sample);
+    state.latestRateLimits = undefined;
+  }
+
+  private convertRateLimitWindow(
+    window: CodexRateLimitWindow | undefined,
+    timestamp: string,
+  ): RateLimitWindow | undefined {
+    if (!window || typeof window.used_percent !== 'number') {
+      return undefined;
+    }
+
+    let resetsAt: string | undefined;
+    if (typeof window.resets_at === 'number') {
+      resetsAt = new Date(window.resets_at * 1000).toISOString();
+    } else if (typeof window.resets_in_seconds === 'number' && !isNaN(Date.parse(timestamp))) {
+      resetsAt = new Date(Date.parse(timestamp) + window.resets_in_seconds * 1000).toISOString();
+    }
+
+    return {
+      usedPercent: window.used_percent,
+      windowMinutes: window.window_minutes,
+      resetsAt,
+    };
+  }
+
+  private sameWindowUsage(a: RateLimitWindow | undefined, b: RateLimitWindow | undefined): boolean {
+    if (!a || !b) return a === b;
+    // Reset times jitter by a few seconds between events; a new window
+    // moves them by much more
+    const resetShift = a.resetsAt && b.resetsAt
+      ? Math.abs(Date.parse(a.resetsAt) - Date.parse(b.resetsAt))
+      : 0;
+    return a.usedPercent === b.usedPercent && resetShift < 60_000;
+  }
+
+  /**
+   * Convert two consecutive cumulative token_count totals into the usage of
+   * the request in between. Repeated events yield no delta; if the totals go
+   * backwards (e.g. after a context reset) the event's last_token_usage is
+   * used instead.
+   */
+  private usageDelta(
+    previous: CodexTokenUsage | undefined,
+    current: CodexTokenUsage,
+    last: CodexTokenUsage | undefined,
+  ): TokenUsage | undefined {
+    const delta: TokenUsage = {
+      inputTokens: current.input_tokens - (previous?.input_tokens || 0),
+      outputTokens: current.output_tokens - (previous?.output_tokens || 0),
+      cacheReadTokens: current.cached_input_tokens - (previous?.cached_input_tokens || 0),
+      reasoningTokens: (current.reasoning_output_tokens || 0) - (previous?.reasoning_output_tokens || 0),
+    };
+
+    if (
+      delta.inputTokens < 0 ||
+      delta.outputTokens < 0 ||
+      delta.cacheReadTokens! < 0 ||
+      delta.reasoningTokens! < 0
+    ) {
+      if (!last) return undefined;
+      return {
+        inputTokens: last.input_tokens,
+        outputTokens: last.output_tokens,
+        cacheReadTokens: last.cached_input_tokens,
+        reasoningTokens: last.reasoning_output_tokens || 0,
+      };
+    }
+
+    if (delta.inputTokens === 0 && delta.outputTokens === 0) {
+      return undefined;
+    }
+    return delta;
+  }
+
+  private addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+    return {
+      inputTokens: a.inputTokens + b.inputTokens,
+      outputTokens: a.outputTokens + b.outputTokens,
+      cacheReadTokens: (a.cacheReadTokens || 0) + (b.cacheReadTokens || 0),
+      reasoningTokens: (a.reasoningTokens || 0) + (b.reasoningTokens || 0),
+    };
+  }
+
+  /**
+   * Record the settings of a new turn and return a timeline marker when the
+   * model, effort or approval/sandbox policy differs from the previous turn.
+   */
+  private applyTurnContext(state: CodexParseState, entry: CodexTurnContext): ChatMessage | undefined {
+    const payload = entry.payload || {};
+    const sandbox = payload.sandbox_policy;
+    const context: TurnContext = {
+      model: payload.model,
+      effort: payload.effort,
+      summary: payload.summary,
+      approvalPolicy: payload.approval_policy,
+      sandboxPolicy: typeof sandbox === 'string' ? sandbox : sandbox?.type,
+    };
+
+    if (context.model && !state.models.includes(context.model)) {
+      state.models.push(context.model);
+    }
+
+    const previous = state.context;
+    state.context = context;
+    if (!previous) {
+      state.initialContext = context;
+      return undefined;
+    }
+
+    const changed = MARKED_CONTEXT_KEYS.filter(key => previous[key] !== context[key]);
+    if (changed.length === 0) {
+      return undefined;
+    }
+
+    return {
+      id: `${entry.timestamp}:context`,
+      role: 'system',
+      content: [],
+      timestamp: entry.timestamp,
+      event: {
+        type: 'context_change',
+        previous,
+        context,
+        changed,
+      },
+    };
+  }
+
+  /**
+   * Pull the exit code and command output out of a shell call result. Codex
+   * writes either a plain-text block ("Exit code: 0\nWall time: ...\nOutput:
+   * ...") or, in older versions, a JSON object with `output` and `metadata`.
+   * stdout and stderr are merged by Codex, so the output goes to stdout.
+   */
+  private parseExecOutput(text: string): Partial<ToolResult> {
+    let exitCode: number | undefined;
+    let output: string | undefined;
+
+    const header = text.match(/^Exit code: (-?\d+)\n(?:Wall time: [^\n]*\n)?(?:Total output lines: [^\n]*\n)?Output:\n/);
+    if (header) {
+      exitCode = Number(header[1]);
+      output = text.slice(header[0].length);
+    } else if (text.startsWith('{')) {
+      try {
+        const parsed = JSON.parse(text) as CodexExecResult;
+        if (typeof parsed.output === 'string' && typeof parsed.metadata?.exit_code === 'number') {
+          exitCode = parsed.metadata.exit_code;
+          output = parsed.output;
         }
+      } catch {
+        // Not an exec result
       }
     }
 
+    if (exitCode === undefined) {
+      return {};
+    }
     return {
-      sessionId,
-      version,
-      cwd,
-      gitBranch,
-      messages,
-      totalUsage,
-      source: 'codex',
+      stdout: output,
+      exitCode,
+      isError: exitCode !== 0 ? true : undefined,
     };
   }
 
@@ -311,6 +737,12 @@ export class CodexParser implements Parser {
           type: 'text',
           text: item.text,
         });
+      } else if (item.type === 'input_image' && typeof item.image_url === 'string') {
+        const dataUrl = /^data:([^;,]+);base64,(.*)$/s.exec(item.image_url);
+        result.push({
+          type: 'image',
+          image: dataUrl ? { mediaType: dataUrl[1], data: dataUrl[2] } : { url: item.image_url },
+        });
       }
     }
 
@@ -0,0 +1,73 @@
+import { FormatDetection } from '../types.js';
+
+// Number of non-empty lines inspected when sniffing a JSONL file
+export const DETECTION_SAMPLE_SIZE = 25;
+
+// Minimum confidence for a detected (rather than forced) format to be used
+export const MIN_CONFIDENCE = 0.5;
+
+/**
+ * Return up to `limit` non-empty, trimmed lines from the start of the content
+ * without splitting the whole file.
+ */
+export function sampleLines(content: string, limit: number = DETECTION_SAMPLE_SIZE): string[] {
+  const lines: string[] = [];
+  let start = 0;
+
+  while (lines.length < limit && start < content.length) {
+    let end = content.indexOf('\n', start);
+    if (end === -1) {
+      end = content.length;
+    }
+    const line = content.slice(start, end).trim();
+    if (line) {
+      lines.push(line);
+    }
+    start = end + 1;
+  }
+
+  return lines;
+}
+
+/**
+ * Score a JSONL file by the fraction of sampled lines that look like entries
+ * of a given format. Lines that are not valid JSON count against the score
+ * but do not rule the format out on their own.
+ */
+export function scoreJsonLines(
+  content: string,
+  label: string,
+  expectation: string,
+  matches: (entry: Record<string, unknown>) => boolean,
+): FormatDetection {
+  const lines = sampleLines(content);
+  if (lines.length === 0) {
+    return { confidence: 0, reason: 'file is empty' };
+  }
+
+  let matched = 0;
+  let invalid = 0;
+
+  for (const line of lines) {
+    let entry: unknown;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      invalid++;
+      continue;
+    }
+    if (entry && typeof entry === 'object' && !Array.isArray(entry) && matches(entry as Record<string, unknown>)) {
+      matched++;
+    }
+  }
+
+  let reason = `${matched}/${lines.length} sampled lines look like ${label} entries`;
+  if (matched === 0) {
+    reason += ` (expected ${expectation})`;
+  }
+  if (invalid > 0) {
+    reason += `; ${invalid} ${invalid === 1 ? 'line is' : 'lines are'} not valid JSON`;
+  }
+
+  return { confidence: matched / lines.length, reason };
+}
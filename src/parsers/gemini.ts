@@ -0,0 +1,356 @@
+import {
+  ChatSession,
+  ChatMessage,
+  MessageContent,
+  TokenUsage,
+  Parser,
+  ParseOptions,
+  FormatDetection,
+  SessionSummary,
+  ToolResult,
+  getToolStatus,
+} from '../types.js';
+import { MIN_CONFIDENCE, sampleLines } from './detection.js';
+
+// Gemini CLI saved chat / checkpoint JSON format types
+interface GeminiUsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  cachedContentTokenCount?: number;
+  thoughtsTokenCount?: number;
+  toolUsePromptTokenCount?: number;
+  totalTokenCount?: number;
+}
+
+interface GeminiFunctionCall {
+  id?: string;
+  name: string;
+  args?: Record<string, unknown>;
+}
+
+interface GeminiFunctionResponse {
+  id?: string;
+  name: string;
+  response?: Record<string, unknown>;
+}
+
+interface GeminiPart {
+  text?: string;
+  thought?: boolean;
+  functionCall?: GeminiFunctionCall;
+  functionResponse?: GeminiFunctionResponse;
+}
+
+interface GeminiContent {
+  role: 'user' | 'model';
+  parts?: GeminiPart[];
+  // Not part of the API Content type, but present in some exports
+  timestamp?: string;
+  model?: string;
+  usageMetadata?: GeminiUsageMetadata;
+}
+
+// Checkpoint files written by Gemini CLI before a restorable tool call
+interface GeminiCheckpoint {
+  sessionId?: string;
+  model?: string;
+  cwd?: string;
+  timestamp?: string;
+  startTime?: string;
+  clientHistory?: GeminiContent[];
+  history?: GeminiContent[];
+}
+
+// Gemini CLI seeds every chat with an environment context turn and a canned
+// acknowledgement from the model; treat that exchange as harness output.
+const CONTEXT_PREAMBLE = 'This is the Gemini CLI. We are setting up the context for our chat.';
+
+// Markers of a chat history turn, for documents seen only in part
+const TURN_ROLE = /"role"\s*:\s*"(?:user|model)"/;
+const TURN_PARTS = /"parts"\s*:\s*\[/;
+
+// Confidence for a document recognized from its head alone; below that of
+// a JSONL format whose lines all match
+const PREFIX_CONFIDENCE = 0.6;
+
+export class GeminiParser implements Parser {
+  readonly format = 'gemini' as const;
+
+  detect(content: string): FormatDetection {
+    // Gemini saves a single JSON document rather than JSONL
+    const trimmed = content.trimStart();
+    if (!trimmed.startsWith('[') && !trimmed.startsWith('{')) {
+      return { confidence: 0, reason: 'not a JSON document' };
+    }
+
+    let doc: unknown;
+    try {
+      doc = JSON.parse(content);
+    } catch (err) {
+      // When streaming only the head of a file is read, which cuts a large
+      // document short; recognize it by the shape of its turns instead
+      if (this.looksLikeHistoryPrefix(content)) {
+        return {
+          confidence: PREFIX_CONFIDENCE,
+          reason: 'start of a JSON document with user/model chat turns (not parsed in full)',
+        };
+      }
+      return {
+        confidence: 0,
+        reason: `not a single JSON document (${err instanceof Error ? err.message : String(err)})`,
+      };
+    }
+
+    if (this.extractHistory(doc) === undefined) {
+      return { confidence: 0, reason: 'JSON document has no user/model chat history' };
+    }
+    return { confidence: 1, reason: 'JSON document contains a user/model chat history' };
+  }
+
+  /** @deprecated Use detect(); kept for callers of earlier releases */
+  canParse(content: string): boolean {
+    return this.detect(content).confidence >= MIN_CONFIDENCE;
+  }
+
+  parse(content: string, options?: ParseOptions): ChatSession {
+    const doc = JSON.parse(content);
+    const history = this.extractHistory(doc);
+    if (!history) {
+      throw new Error('Gemini file does not contain a chat history');
+    }
+
+    const checkpoint: GeminiCheckpoint = Array.isArray(doc) ? {} : doc;
+    const sessionId = checkpoint.sessionId || 'unknown';
+    const cwd = checkpoint.cwd;
+    const fallbackTimestamp = checkpoint.timestamp || checkpoint.startTime || '';
+
+    let model = checkpoint.model;
+
+    const totalUsage: TokenUsage = {
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheReadTokens: 0,
+      reasoningTokens: 0,
+    };
+
+    const messages: ChatMessage[] = [];
+    const identifyHarness = options?.identifyHarness !== false;
+
+    // Gemini function calls usually lack ids, so pair responses with calls by
+    // name in the order they were issued.
+    const pendingCallIds = new Map<string, string[]>();
+    let callCount = 0;
+    let inContextPreamble = false;
+
+    history.forEach((turn, turnIndex) => {
+      if (!turn || !Array.isArray(turn.parts)) {
+        return;
+      }
+
+      const turnId = `turn-${turnIndex}`;
+      const timestamp = turn.timestamp || fallbackTimestamp;
+      const role: ChatMessage['role'] = turn.role === 'model' ? 'assistant' : 'user';
+
+      if (turn.model && !model) {
+        model = turn.model;
+      }
+
+      // Mark the context preamble and the model's acknowledgement as harness
+      let isHarness = false;
+      if (identifyHarness) {
+        if (turn.role === 'user' && turnIndex === 0 && this.startsWithPreamble(turn.parts)) {
+          isHarness = true;
+          inContextPreamble = true;
+        } else if (inContextPreamble && turn.role === 'model') {
+          isHarness = true;
+          inContextPreamble = false;
+        } else {
+          inContextPreamble = false;
+        }
+      }
+
+      let usage: TokenUsage | undefined;
+      if (turn.usageMetadata) {
+        usage = this.convertUsage(turn.usageMetadata);
+        totalUsage.inputTokens += usage.inputTokens;
+        totalUsage.outputTokens += usage.outputTokens;
+        totalUsage.cacheReadTokens! += usage.cacheReadTokens || 0;
+        totalUsage.reasoningTokens! += usage.reasoningTokens || 0;
+      }
+
+      const content: MessageContent[] = [];
+      const thoughts: string[] = [];
+
+      for (const part of turn.parts) {
+        if (part.thought && typeof part.text === 'string') {
+          thoughts.push(part.text);
+        } else if (typeof part.text === 'string') {
+          if (part.text.trim()) {
+            content.push({ type: 'text', text: part.text });
+          }
+        } else if (part.functionCall) {
+          const call = part.functionCall;
+          const callId = call.id || `${call.name}-${callCount}`;
+          callCount++;
+          const queue = pendingCallIds.get(call.name) || [];
+          queue.push(callId);
+          pendingCallIds.set(call.name, queue);
+          content.push({
+            type: 'tool_use',
+            toolCall: {
+              id: callId,
+              name: call.name,
+              input: call.args || {},
+            },
+          });
+        } else if (part.functionResponse) {
+          const response = part.functionResponse;
+          const queue = pendingCallIds.get(response.name);
+          let toolUseId = response.id;
+          if (queue && queue.length > 0) {
+            const queued = toolUseId ? queue.indexOf(toolUseId) : 0;
+            const [matched] = queue.splice(queued >= 0 ? queued : 0, 1);
+            toolUseId = toolUseId || matched;
+          }
+          const toolResult: ToolResult = {
+            toolUseId: toolUseId || response.name,
+            content: this.formatResponse(response.response),
+            isError: typeof response.response?.error === 'string' ? true : undefined,
+          };
+          toolResult.status = getToolStatus(toolResult);
+          content.push({ type: 'tool_result', toolResult });
+        }
+      }
+
+      // Thought parts as a separate harness "thinking" message
+      if (thoughts.length > 0) {
+        const thinkingMessage: ChatMessage = {
+          id: `${turnId}:thinking`,
+          role: identifyHarness ? 'system' : 'assistant',
+          content: thoughts.map(text => ({
+            type: 'thinking' as const,
+            text,
+          })),
+          timestamp,
+        };
+        if (identifyHarness) {
+          thinkingMessage.isHarness = true;
+        }
+        messages.push(thinkingMessage);
+      }
+
+      if (content.length > 0 || usage) {
+        const message: ChatMessage = {
+          id: turnId,
+          role,
+          content,
+          timestamp,
+          model: turn.model,
+          usage,
+        };
+        if (isHarness) {
+          message.isHarness = true;
+        }
+        messages.push(message);
+      }
+    });
+
+    return {
+      sessionId,
+      model,
+      cwd,
+      messages,
+      totalUsage,
+      source: 'gemini',
+    };
+  }
+
+  async *parseStream(input: NodeJS.ReadableStream, options?: ParseOptions): AsyncGenerator<ChatMessage, SessionSummary> {
+    // Gemini saves a single JSON document, which cannot be parsed
+    // incrementally; these files are small, so buffer the whole stream.
+    const chunks: Buffer[] = [];
+    for await (const chunk of input) {
+      chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+    }
+
+    const { messages, ...summary } = this.parse(Buffer.concat(chunks).toString('utf-8'), options);
+    yield* messages;
+
+    return {
+      ...summary,
+      messageCount: messages.length,
+    };
+  }
+
+  // Pretty-printed JSON whose first line is not a document on its own (as
+  // it is in JSONL) and that contains a chat turn
+  private looksLikeHistoryPrefix(content: string): boolean {
+    const [firstLine] = sampleLines(content, 1);
+    try {
+      JSON.parse(firstLine);
+      return false;
+    } catch {
+      return TURN_ROLE.test(content) && TURN_PARTS.test(content);
+    }
+  }
+
+  private extractHistory(doc: unknown): GeminiContent[] | undefined {
+    if (Array.isArray(doc)) {
+      return this.isHistory(doc) ? doc : undefined;
+    }
+    if (doc && typeof doc === 'object') {
+      const checkpoint = doc as GeminiCheckpoint;
+      // Prefer the API-level history; `history` may hold UI items instead
+      if (Array.isArray(checkpoint.clientHistory) && this.isHistory(checkpoint.clientHistory)) {
+        return checkpoint.clientHistory;
+      }
+      if (Array.isArray(checkpoint.history) && this.isHistory(checkpoint.history)) {
+        return checkpoint.history;
+      }
+    }
+    return undefined;
+  }
+
+  private isHistory(items: unknown[]): items is GeminiContent[] {
+    return items.every(item => {
+      const turn = item as GeminiContent;
+      return (
+        turn !== null &&
+        typeof turn === 'object' &&
+        (turn.role === 'user' || turn.role === 'model') &&
+        Array.isArray(turn.parts)
+      );
+    });
+  }
+
+  private startsWithPreamble(parts: GeminiPart[]): boolean {
+    const first = parts.find(part => typeof part.text === 'string');
+    return first?.text?.startsWith(CONTEXT_PREAMBLE) === true;
+  }
+
+  private convertUsage(meta: GeminiUsageMetadata): TokenUsage {
+    // promptTokenCount already includes cached content; thought tokens are
+    // billed as output but reported separately from candidates, so they are
+    // folded into output and kept as the reasoning breakdown.
+    return {
+      inputTokens: (meta.promptTokenCount || 0) + (meta.toolUsePromptTokenCount || 0),
+      outputTokens: (meta.candidatesTokenCount || 0) + (meta.thoughtsTokenCount || 0),
+      cacheReadTokens: meta.cachedContentTokenCount || 0,
+      reasoningTokens: meta.thoughtsTokenCount || 0,
+    };
+  }
+
+  private formatResponse(response: Record<string, unknown> | undefined): string {
+    if (!response) {
+      return '';
+    }
+    // Gemini CLI tools reply with { output } or { error }
+    if (typeof response.output === 'string') {
+      return response.output;
+    }
+    if (typeof response.error === 'string') {
+      return response.error;
+    }
+    return JSON.stringify(response, null, 2);
+  }
+}
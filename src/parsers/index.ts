@@ -1,24 +1,59 @@
-import { Parser, ChatSession, ParseOptions } from '../types.js';
+import { Parser, ChatSession, ParseOptions, FormatDetection, SessionFormat } from '../types.js';
 import { ClaudeParser } from './claude.js';
 import { CodexParser } from './codex.js';
+import { GeminiParser } from './gemini.js';
+import { MIN_CONFIDENCE } from './detection.js';
 
 // Registry of all available parsers
 const parsers: Parser[] = [
   new ClaudeParser(),
   new CodexParser(),
-  // Add GeminiParser, etc. here
+  new GeminiParser(),
 ];
 
-export function parseFile(content: string, options?: ParseOptions): ChatSession {
-  const firstLine = content.trim().split('\n')[0];
+export interface DetectionResult extends FormatDetection {
+  parser: Parser;
+  format: SessionFormat;
+  forced: boolean;
+}
 
-  for (const parser of parsers) {
-    if (parser.canParse(firstLine)) {
-      return parser.parse(content, options);
+export function getFormats(): SessionFormat[] {
+  return parsers.map(parser => parser.format);
+}
+
+/**
+ * Pick the parser for a file. When `format` is given that parser is used
+ * regardless of its score; otherwise every parser scores the content and the
+ * most confident one wins. Throws with each parser's reasoning if none fits.
+ */
+export function detectFormat(content: string, format?: SessionFormat): DetectionResult {
+  if (format) {
+    const parser = parsers.find(p => p.format === format);
+    if (!parser) {
+      throw new Error(`Unknown format: ${format} (available: ${getFormats().join(', ')})`);
     }
+    return { ...parser.detect(content), parser, format, forced: true };
+  }
+
+  const results = parsers.map(parser => ({ parser, ...parser.detect(content) }));
+  const best = results.reduce((a, b) => (b.confidence > a.confidence ? b : a));
+
+  if (best.confidence < MIN_CONFIDENCE) {
+    const details = results
+      .map(r => `  - ${r.parser.format}: ${r.reason}`)
+      .join('\n');
+    throw new Error(
+      `Unknown file format: no parser could handle this file\n${details}\n` +
+      `Use --format <${getFormats().join('|')}> to force a parser.`
+    );
   }
 
-  throw new Error('Unknown file format: no parser could handle this file');
+  return { ...best, format: best.parser.format, forced: false };
+}
+
+export function parseFile(content: string, options?: ParseOptions): ChatSession {
+  const { parser } = detectFormat(content, options?.format);
+  return parser.parse(content, options);
 }
 
-export { ClaudeParser, CodexParser };
+export { ClaudeParser, CodexParser, GeminiParser };
@@ -0,0 +1,82 @@
+import { createInterface } from 'readline';
+import { ParseDiagnostic, ParseOptions } from '../types.js';
+
+// Maximum characters of a malformed line kept in its diagnostic
+const SNIPPET_LENGTH = 120;
+
+export interface JsonLinesResult<T> {
+  entries: T[];
+  diagnostics: ParseDiagnostic[];
+}
+
+/**
+ * Parse a single JSONL line. Malformed lines (typically a truncated final
+ * line from a session that is still running or crashed) are recorded in
+ * `diagnostics` and yield undefined, unless `options.strict` is set, in which
+ * case they throw.
+ */
+function parseJsonLine<T>(
+  rawLine: string,
+  lineNumber: number,
+  diagnostics: ParseDiagnostic[],
+  options?: ParseOptions,
+): T | undefined {
+  const line = rawLine.trim();
+  if (!line) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(line);
+  } catch (err) {
+    const error = err instanceof Error ? err.message : String(err);
+    if (options?.strict) {
+      throw new Error(`Malformed JSON on line ${lineNumber}: ${error}`);
+    }
+    diagnostics.push({
+      line: lineNumber,
+      snippet: line.length > SNIPPET_LENGTH ? `${line.slice(0, SNIPPET_LENGTH)}…` : line,
+      error,
+    });
+    return undefined;
+  }
+}
+
+/**
+ * Parse JSONL content held in memory, skipping blank and malformed lines.
+ */
+export function parseJsonLines<T>(content: string, options?: ParseOptions): JsonLinesResult<T> {
+  const entries: T[] = [];
+  const diagnostics: ParseDiagnostic[] = [];
+  const lines = content.split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    const entry = parseJsonLine<T>(lines[i], i + 1, diagnostics, options);
+    if (entry !== undefined) {
+      entries.push(entry);
+    }
+  }
+
+  return { entries, diagnostics };
+}
+
+/**
+ * Parse JSONL from a readable stream one line at a time, so only the current
+ * line is held in memory. Malformed lines are appended to `diagnostics`.
+ */
+export async function* readJsonLines<T>(
+  input: NodeJS.ReadableStream,
+  diagnostics: ParseDiagnostic[],
+  options?: ParseOptions,
+): AsyncGenerator<T> {
+  const lines = createInterface({ input, crlfDelay: Infinity });
+  let lineNumber = 0;
+
+  for await (const line of lines) {
+    lineNumber++;
+    const entry = parseJsonLine<T>(line, lineNumber, diagnostics, options);
+    if (entry !== undefined) {
+      yield entry;
+    }
+  }
+}
@@ -0,0 +1,230 @@
+import { readFileSync } from 'fs';
+import { ChatMessage, ChatSession, SessionSource, SessionSummary, TokenUsage } from './types.js';
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cacheWrite?: number;  // Defaults to the input rate
+  cacheRead?: number;   // Defaults to the input rate
+  reasoning?: number;   // Defaults to the output rate
+}
+
+// Keys are model names or name prefixes; the longest matching key wins
+export type PriceTable = Record<string, ModelPrice>;
+
+// Published list prices at the time of writing; override with --pricing
+export const DEFAULT_PRICES: PriceTable = {
+  // Anthropic
+  'claude-opus-4': { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  'claude-opus-4-5': { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 },
+  'claude-sonnet-4': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-3-7-sonnet': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-3-5-sonnet': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-haiku-4-5': { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 },
+  'claude-3-5-haiku': { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 },
+
+  // OpenAI
+  'gpt-5': { input: 1.25, output: 10, cacheRead: 0.125 },
+  'gpt-5-mini': { input: 0.25, output: 2, cacheRead: 0.025 },
+  'gpt-5-nano': { input: 0.05, output: 0.4, cacheRead: 0.005 },
+  'gpt-4.1': { input: 2, output: 8, cacheRead: 0.5 },
+  'o3': { input: 2, output: 8, cacheRead: 0.5 },
+  'o4-mini': { input: 1.1, output: 4.4, cacheRead: 0.275 },
+  'codex-mini': { input: 1.5, output: 6, cacheRead: 0.375 },
+
+  // Google
+  'gemini-2.5-pro': { input: 1.25, output: 10, cacheRead: 0.31 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5, cacheRead: 0.075 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4, cacheRead: 0.025 },
+};
+
+// A rate from a user price table, or undefined when it is left out
+function readRate(model: string, price: Record<string, unknown>, field: keyof ModelPrice): number | undefined {
+  const rate = price[field];
+  if (rate === undefined) return undefined;
+  if (typeof rate !== 'number' || rate < 0) {
+    throw new Error(`Pricing for "${model}" needs a non-negative number for "${field}"`);
+  }
+  return rate;
+}
+
+/**
+ * Load a user price table from a JSON file of the form
+ * `{ "<model or prefix>": { "input": 3, "output": 15, ... } }` and merge it
+ * over the defaults. Throws with the offending key if an entry is invalid.
+ */
+export function loadPriceTable(path: string): PriceTable {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (err) {
+    throw new Error(`Cannot read pricing file ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  if (!doc || typeof doc !== 'object' || Array.isArray(doc)) {
+    throw new Error(`Pricing file ${path} must contain an object keyed by model name`);
+  }
+
+  const table: PriceTable = { ...DEFAULT_PRICES };
+  for (const [model, value] of Object.entries(doc as Record<string, unknown>)) {
+    const price = value as Record<string, unknown>;
+    if (!price || typeof price !== 'object') {
+      throw new Error(`Pricing for "${model}" must be an object`);
+    }
+    const input = readRate(model, price, 'input');
+    const output = readRate(model, price, 'output');
+    if (input === undefined || output === undefined) {
+      throw new Error(`Pricing for "${model}" needs a non-negative number for "${input === undefined ? 'input' : 'output'}"`);
+    }
+    table[model] = {
+      input,
+      output,
+      cacheWrite: readRate(model, price, 'cacheWrite'),
+      cacheRead: readRate(model, price, 'cacheRead'),
+      reasoning: readRate(model, price, 'reasoning'),
+    };
+  }
+  return table;
+}
+
+/**
+ * Find the price of a model: an exact key, otherwise the longest key the
+ * model name starts with (so dated snapshots match their family).
+ */
+export function findPrice(table: PriceTable, model: string | undefined): ModelPrice | undefined {
+  if (!model) return undefined;
+  if (table[model]) return table[model];
+
+  let best: string | undefined;
+  for (const key of Object.keys(table)) {
+    if (model.startsWith(key) && (!best || key.length > best.length)) {
+      best = key;
+    }
+  }
+  return best ? table[best] : undefined;
+}
+
+/**
+ * Estimated cost in USD of the given usage. Claude reports cache tokens
+ * separately from input, while Codex and Gemini include cached tokens in
+ * input; reasoning tokens are part of output for every source.
+ */
+export function estimateCost(usage: TokenUsage, source: SessionSource, price: ModelPrice): number {
+  const cacheWrite = usage.cacheCreationTokens || 0;
+  const cacheRead = usage.cacheReadTokens || 0;
+  const reasoning = Math.min(usage.reasoningTokens || 0, usage.outputTokens);
+
+  const uncachedInput = source === 'claude' || source === 'unknown'
+    ? usage.inputTokens
+    : Math.max(usage.inputTokens - cacheRead - cacheWrite, 0);
+
+  const cost =
+    uncachedInput * price.input +
+    cacheWrite * (price.cacheWrite ?? price.input) +
+    cacheRead * (price.cacheRead ?? price.input) +
+    (usage.outputTokens - reasoning) * price.output +
+    reasoning * (price.reasoning ?? price.output);
+
+  return cost / 1_000_000;
+}
+
+/**
+ * Cost of `usage` at the price of `model`, or undefined when the model has
+ * no entry in the table.
+ */
+export function estimateModelCost(
+  usage: TokenUsage,
+  source: SessionSource,
+  model: string | undefined,
+  table: PriceTable,
+): number | undefined {
+  const price = findPrice(table, model);
+  return price ? estimateCost(usage, source, price) : undefined;
+}
+
+const USAGE_FIELDS: (keyof TokenUsage)[] = [
+  'inputTokens', 'outputTokens', 'cacheCreationTokens', 'cacheReadTokens', 'reasoningTokens',
+];
+
+/**
+ * Running cost of a session, with each message priced at the model that
+ * produced it, so sessions that switch models (or merge sub-agents on
+ * another model) are totalled correctly. Usage the messages do not account
+ * for, such as messages that name no model or a final Codex token count
+ * that follows the last response, is priced at the last model seen.
+ */
+export class CostTally {
+  private readonly source: SessionSource;
+  private readonly table: PriceTable;
+  private cost = 0;
+  private lastModel?: string;  // Last model with a known price
+  private readonly priced: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+
+  constructor(source: SessionSource, table: PriceTable) {
+    this.source = source;
+    this.table = table;
+  }
+
+  add(messages: Iterable<ChatMessage>): void {
+    for (const message of messages) {
+      const cost = message.usage && estimateModelCost(message.usage, this.source, message.model, this.table);
+      if (cost === undefined || !message.usage) continue;
+      this.cost += cost;
+      this.lastModel = message.model;
+      for (const field of USAGE_FIELDS) {
+        this.priced[field] = (this.priced[field] || 0) + (message.usage[field] || 0);
+      }
+    }
+  }
+
+  // Adds each message a streaming parser yields, then passes it on
+  async *track(
+    messages: AsyncGenerator<ChatMessage, SessionSummary>,
+  ): AsyncGenerator<ChatMessage, SessionSummary> {
+    let result = await messages.next();
+    while (!result.done) {
+      this.add([result.value]);
+      yield result.value;
+      result = await messages.next();
+    }
+    return result.value;
+  }
+
+  /**
+   * Total in USD given the session's token totals, or undefined when
+   * neither the messages nor `defaultModel` have a price.
+   */
+  total(totalUsage: TokenUsage, defaultModel?: string): number | undefined {
+    const rest: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+    for (const field of USAGE_FIELDS) {
+      rest[field] = Math.max((totalUsage[field] || 0) - (this.priced[field] || 0), 0);
+    }
+    const restCost = estimateModelCost(rest, this.source, this.lastModel || defaultModel, this.table);
+    if (restCost === undefined) {
+      return this.lastModel ? this.cost : undefined;
+    }
+    return this.cost + restCost;
+  }
+}
+
+/**
+ * Estimated cost of a session, or of one sub-agent thread, with each
+ * message priced at its own model.
+ */
+export function estimateSessionCost(
+  session: Pick<ChatSession, 'messages' | 'threads' | 'totalUsage' | 'source' | 'model'>,
+  table: PriceTable,
+): number | undefined {
+  const tally = new CostTally(session.source, table);
+  tally.add(session.messages);
+  for (const thread of session.threads || []) {
+    tally.add(thread.messages);
+  }
+  return tally.total(session.totalUsage, session.model);
+}
+
+export function formatCost(cost: number): string {
+  // Show sub-cent amounts for individual messages
+  return cost > 0 && cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
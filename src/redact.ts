@@ -0,0 +1,223 @@
+import { readFileSync } from 'fs';
+import { ChatMessage, ChatSession, MessageContent, SessionSummary } from './types.js';
+
+export interface RedactionRule {
+  name: string;     // Used in placeholders and the summary, e.g. email
+  pattern: RegExp;  // Must have the g flag
+}
+
+// Rules run in this order, so specific key formats come before the generic
+// assignment and bearer rules that would otherwise claim the same text
+export const DEFAULT_REDACTION_RULES: RedactionRule[] = [
+  {
+    name: 'private-key',
+    pattern: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY-----[\s\S]*?-----END (?:[A-Z0-9]+ )*PRIVATE KEY-----/g,
+  },
+  { name: 'aws-access-key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  {
+    name: 'aws-secret-key',
+    pattern: /(?<=\baws_?secret_?access_?key["']?\s*[=:]\s*["']?)[A-Za-z0-9/+=]{40}(?![A-Za-z0-9/+=])/gi,
+  },
+  { name: 'gcp-api-key', pattern: /\bAIza[0-9A-Za-z_-]{35}(?![0-9A-Za-z_-])/g },
+  { name: 'anthropic-key', pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g },
+  { name: 'openai-key', pattern: /\bsk-(?:proj-|svcacct-|admin-)?[A-Za-z0-9_-]{20,}/g },
+  { name: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g },
+  { name: 'bearer-token', pattern: /(?<=\bBearer\s+)[A-Za-z0-9._~+/=-]{16,}/gi },
+  // Values of variables such as OPENAI_API_KEY=... in env dumps and configs
+  {
+    name: 'env-secret',
+    pattern: /(?<=\b[A-Z0-9_]*(?:API_?KEY|SECRET|TOKEN|PASSWORD|PASSWD)[A-Z0-9_]*["']?\s*[=:]\s*["']?)[^\s"']{8,}/g,
+  },
+  // git@host:repo remotes are addresses, not people. Parts are bounded by
+  // their RFC 5321 lengths so long runs without an @ fail fast
+  {
+    name: 'email',
+    pattern: /\b(?!git@)[A-Za-z0-9._%+-]{1,64}@[A-Za-z0-9-]{1,63}(?:\.[A-Za-z0-9-]{1,63}){0,8}\.[A-Za-z]{2,63}\b/g,
+  },
+];
+
+export interface RedactionCount {
+  rule: string;
+  occurrences: number;  // Matches replaced
+  values: number;       // Distinct values, i.e. placeholders issued
+}
+
+const RULE_NAME = /^[\w-]+$/;
+
+/**
+ * Read user redaction rules from a JSON file: an object keyed by rule name
+ * whose values are a regular expression source, or `{ pattern, flags }`.
+ */
+export function loadRedactionRules(path: string): RedactionRule[] {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (err) {
+    throw new Error(`Cannot read redaction file ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  if (!doc || typeof doc !== 'object' || Array.isArray(doc)) {
+    throw new Error(`Redaction file ${path} must contain an object keyed by rule name`);
+  }
+
+  return Object.entries(doc as Record<string, unknown>).map(([name, value]) => {
+    if (!RULE_NAME.test(name)) {
+      throw new Error(`Redaction rule name "${name}" may only contain letters, digits, _ and -`);
+    }
+    const rule = typeof value === 'string' ? { pattern: value } : value as Record<string, unknown>;
+    if (!rule || typeof rule.pattern !== 'string' || (rule.flags !== undefined && typeof rule.flags !== 'string')) {
+      throw new Error(`Redaction rule "${name}" must be a pattern string or { "pattern": string, "flags"?: string }`);
+    }
+    const flags = (rule.flags as string | undefined) || '';
+    try {
+      return { name, pattern: new RegExp(rule.pattern, flags.includes('g') ? flags : `${flags}g`) };
+    } catch (err) {
+      throw new Error(`Redaction rule "${name}" is not a valid regular expression: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  });
+}
+
+const PLACEHOLDER_PREFIX = '[REDACTED:';
+
+/**
+ * Replaces secrets with placeholders such as `[REDACTED:email-2]`. The same
+ * value always gets the same placeholder, so a redacted report still shows
+ * where one key or address recurs. Use one redactor per report.
+ */
+export class Redactor {
+  private readonly rules: RedactionRule[];
+  // Placeholder of each value, per rule
+  private readonly placeholders = new Map<string, Map<string, string>>();
+  // Occurrences replaced, per rule
+  private readonly counts = new Map<string, number>();
+
+  constructor(rules: RedactionRule[] = DEFAULT_REDACTION_RULES) {
+    this.rules = rules;
+  }
+
+  redactText(text: string): string {
+    if (!text) return text;
+    for (const rule of this.rules) {
+      text = text.replace(rule.pattern, match => {
+        // Text an earlier rule already replaced, or an empty match
+        if (!match || match.includes(PLACEHOLDER_PREFIX)) return match;
+        this.counts.set(rule.name, (this.counts.get(rule.name) || 0) + 1);
+        let values = this.placeholders.get(rule.name);
+        if (!values) {
+          values = new Map();
+          this.placeholders.set(rule.name, values);
+        }
+        let placeholder = values.get(match);
+        if (!placeholder) {
+          placeholder = `${PLACEHOLDER_PREFIX}${rule.name}-${values.size + 1}]`;
+          values.set(match, placeholder);
+        }
+        return placeholder;
+      });
+    }
+    return text;
+  }
+
+  // Strings anywhere in a JSON value, e.g. tool call input
+  redactValue(value: unknown): unknown {
+    if (typeof value === 'string') {
+      return this.redactText(value);
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.redactValue(item));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.redactValue(item)]),
+      );
+    }
+    return value;
+  }
+
+  // Redacts a message in place and returns it
+  redactMessage(message: ChatMessage): ChatMessage {
+    message.content.forEach(item => this.redactContent(item));
+
+    const event = message.event;
+    if (event?.type === 'interruption') {
+      event.reason = this.redactOptional(event.reason);
+      event.detail = this.redactOptional(event.detail);
+    } else if (event?.type === 'checkpoint') {
+      event.files = event.files?.map(file => this.redactText(file));
+      event.untrackedFiles = event.untrackedFiles?.map(file => this.redactText(file));
+    }
+    return message;
+  }
+
+  /**
+   * Redacts the session metadata that can hold paths, hostnames or
+   * credentials (working directory, branch, repository URL, skipped lines).
+   * Works on a session or the summary of a streamed one.
+   */
+  redactMetadata<T extends ChatSession | SessionSummary>(session: T): T {
+    session.cwd = this.redactOptional(session.cwd);
+    session.gitBranch = this.redactOptional(session.gitBranch);
+    session.repositoryUrl = this.redactOptional(session.repositoryUrl);
+    for (const diagnostic of session.diagnostics || []) {
+      diagnostic.snippet = this.redactText(diagnostic.snippet);
+      diagnostic.error = this.redactText(diagnostic.error);
+    }
+    for (const thread of session.threads || []) {
+      thread.messages.forEach(message => this.redactMessage(message));
+    }
+    return session;
+  }
+
+  // Redacts a parsed session, including its sub-agent threads, in place
+  redactSession(session: ChatSession): ChatSession {
+    session.messages.forEach(message => this.redactMessage(message));
+    return this.redactMetadata(session);
+  }
+
+  // Redacts messages as a streaming parser yields them, then its summary
+  async *redactStream(
+    messages: AsyncGenerator<ChatMessage, SessionSummary>,
+  ): AsyncGenerator<ChatMessage, SessionSummary> {
+    let result = await messages.next();
+    while (!result.done) {
+      yield this.redactMessage(result.value);
+      result = await messages.next();
+    }
+    return this.redactMetadata(result.value);
+  }
+
+  // What was replaced, per rule that matched, in rule order
+  getSummary(): RedactionCount[] {
+    return this.rules
+      .filter(rule => this.counts.has(rule.name))
+      .map(rule => ({
+        rule: rule.name,
+        occurrences: this.counts.get(rule.name)!,
+        values: this.placeholders.get(rule.name)!.size,
+      }));
+  }
+
+  private redactOptional(text: string | undefined): string | undefined {
+    return text === undefined ? undefined : this.redactText(text);
+  }
+
+  private redactContent(item: MessageContent): void {
+    item.text = this.redactOptional(item.text);
+    if (item.toolCall) {
+      item.toolCall.input = this.redactValue(item.toolCall.input) as Record<string, unknown>;
+    }
+    const result = item.toolResult;
+    if (result) {
+      result.content = this.redactText(result.content);
+      result.stdout = this.redactOptional(result.stdout);
+      result.stderr = this.redactOptional(result.stderr);
+      for (const part of result.parts || []) {
+        part.text = this.redactOptional(part.text);
+        if (part.image) part.image.url = this.redactOptional(part.image.url);
+      }
+    }
+    if (item.image) {
+      item.image.url = this.redactOptional(item.image.url);
+    }
+  }
+}
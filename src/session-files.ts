@@ -0,0 +1,176 @@
+import { Stats, closeSync, existsSync, openSync, readSync, readdirSync, statSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { sampleLines } from './parsers/detection.js';
+
+// Claude Code writes each sub-agent transcript next to the main session log
+const AGENT_FILE_PATTERN = /^agent-.+\.jsonl$/;
+
+// Bytes read from the start of a Claude log to find its sessionId
+const SESSION_INFO_HEAD_BYTES = 64 * 1024;
+
+export interface SessionFileGroup {
+  main: string;      // Log the report is generated for
+  agents: string[];  // Sub-agent logs merged into that report
+}
+
+interface ClaudeLogInfo {
+  sessionId: string;
+  isSidechain: boolean;
+}
+
+/**
+ * Read up to `bytes` from the start of a file, dropping a trailing partial
+ * line so it is not sampled as malformed JSON.
+ */
+export function readHead(path: string, bytes: number): string {
+  const fd = openSync(path, 'r');
+  try {
+    const buffer = Buffer.alloc(bytes);
+    const read = readSync(fd, buffer, 0, bytes, 0);
+    const head = buffer.subarray(0, read).toString('utf-8');
+    const lastNewline = head.lastIndexOf('\n');
+    return read === bytes && lastNewline > 0 ? head.slice(0, lastNewline) : head;
+  } finally {
+    closeSync(fd);
+  }
+}
+
+function readClaudeLogInfo(path: string): ClaudeLogInfo | undefined {
+  let head: string;
+  try {
+    head = readHead(path, SESSION_INFO_HEAD_BYTES);
+  } catch {
+    return undefined;
+  }
+
+  for (const line of sampleLines(head)) {
+    try {
+      const entry = JSON.parse(line);
+      if (
+        (entry.type === 'user' || entry.type === 'assistant') &&
+        typeof entry.sessionId === 'string' &&
+        entry.message
+      ) {
+        return { sessionId: entry.sessionId, isSidechain: entry.isSidechain === true };
+      }
+    } catch {
+      // Not a Claude entry; keep looking
+    }
+  }
+  return undefined;
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+// Stats of a path, or undefined (with a warning) when it cannot be read,
+// e.g. a dangling symlink
+function tryStat(path: string): Stats | undefined {
+  try {
+    return statSync(path);
+  } catch (err) {
+    console.warn(`Warning: skipping ${path}: ${errorMessage(err)}`);
+    return undefined;
+  }
+}
+
+// Names in a directory, or none (with a warning) when it cannot be read
+function tryReadDir(dir: string): string[] {
+  try {
+    return readdirSync(dir);
+  } catch (err) {
+    console.warn(`Warning: cannot read directory ${dir}: ${errorMessage(err)}`);
+    return [];
+  }
+}
+
+/**
+ * Replace directory arguments with the .jsonl/.json files they contain.
+ * Entries that cannot be read are skipped with a warning; other missing
+ * paths are kept, so they are reported when processed.
+ */
+export function expandInputs(paths: string[]): string[] {
+  const files: string[] = [];
+  for (const path of paths) {
+    if (existsSync(path) && tryStat(path)?.isDirectory()) {
+      const entries = tryReadDir(path)
+        .filter(name => /\.jsonl?$/.test(name))
+        .sort()
+        .map(name => join(path, name))
+        .filter(file => tryStat(file)?.isFile());
+      files.push(...entries);
+    } else {
+      files.push(path);
+    }
+  }
+  return files;
+}
+
+// Sidechain logs in a directory, keyed by sessionId
+function indexAgentFiles(dir: string): Map<string, string[]> {
+  const agents = new Map<string, string[]>();
+  const names = tryReadDir(dir).filter(name => AGENT_FILE_PATTERN.test(name)).sort();
+  for (const name of names) {
+    const path = join(dir, name);
+    const info = readClaudeLogInfo(path);
+    if (!info?.isSidechain) continue;
+    const paths = agents.get(info.sessionId) || [];
+    paths.push(path);
+    agents.set(info.sessionId, paths);
+  }
+  return agents;
+}
+
+/**
+ * Group Claude sub-agent logs with the main log of their session, matching
+ * on sessionId. Agent logs next to a main log are picked up even when they
+ * were not passed explicitly; agent logs without a main log stand alone.
+ */
+export function groupSessionFiles(paths: string[]): SessionFileGroup[] {
+  const infos = new Map<string, ClaudeLogInfo | undefined>();
+  for (const path of paths) {
+    infos.set(path, existsSync(path) ? readClaudeLogInfo(path) : undefined);
+  }
+
+  const mainBySession = new Map<string, SessionFileGroup>();
+  for (const path of paths) {
+    const info = infos.get(path);
+    if (info && !info.isSidechain && !mainBySession.has(info.sessionId)) {
+      mainBySession.set(info.sessionId, { main: path, agents: [] });
+    }
+  }
+
+  const groups: SessionFileGroup[] = [];
+  for (const path of paths) {
+    const info = infos.get(path);
+    const group = info ? mainBySession.get(info.sessionId) : undefined;
+    if (group && group.main === path) {
+      groups.push(group);
+    } else if (group && info?.isSidechain) {
+      group.agents.push(path);
+    } else {
+      groups.push({ main: path, agents: [] });
+    }
+  }
+
+  // Sibling agent logs that were not listed explicitly; each directory is
+  // scanned once however many sessions it holds
+  const listed = new Set(paths.map(path => resolve(path)));
+  const agentsByDir = new Map<string, Map<string, string[]>>();
+  for (const [sessionId, group] of mainBySession) {
+    const dir = resolve(dirname(group.main));
+    let agents = agentsByDir.get(dir);
+    if (!agents) {
+      agents = indexAgentFiles(dir);
+      agentsByDir.set(dir, agents);
+    }
+    for (const sibling of agents.get(sessionId) || []) {
+      if (!listed.has(resolve(sibling))) {
+        group.agents.push(sibling);
+      }
+    }
+  }
+
+  return groups;
+}
@@ -0,0 +1,245 @@
+import { ToolCall } from './types.js';
+import { escapeHtml } from './html-utils.js';
+import { DiffLine, FILE_OPERATION_LABELS, FileDiff, diffsForToolCall, shellCommandText } from './diff.js';
+import { highlight, languageForPath } from './highlight.js';
+
+/**
+ * Renders the input of a tool call as HTML. Returning undefined falls back
+ * to the JSON view, e.g. when the input doesn't have the expected shape.
+ */
+export type ToolInputRenderer = (call: ToolCall) => string | undefined;
+
+// Renderers keyed by tool name
+const renderers = new Map<string, ToolInputRenderer>();
+
+/**
+ * Register a renderer for one or more tool names, replacing any renderer
+ * already registered for them (including the built-in ones).
+ */
+export function registerToolRenderer(names: string | string[], renderer: ToolInputRenderer): void {
+  for (const name of Array.isArray(names) ? names : [names]) {
+    renderers.set(name, renderer);
+  }
+}
+
+export function getToolRenderer(name: string): ToolInputRenderer | undefined {
+  return renderers.get(name);
+}
+
+export function renderToolInput(call: ToolCall): string {
+  const renderer = renderers.get(call.name);
+  const html = renderer ? renderer(call) : undefined;
+  if (html !== undefined) {
+    return `<div class="tool-input tool-view">${html}</div>`;
+  }
+  return `<pre class="tool-input">${highlight(JSON.stringify(call.input, null, 2), 'json')}</pre>`;
+}
+
+function str(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function num(value: unknown): number | undefined {
+  return typeof value === 'number' && isFinite(value) ? value : undefined;
+}
+
+function row(label: string, valueHtml: string): string {
+  return `<div class="tool-view-row"><span class="tool-view-label">${label}</span>${valueHtml}</div>`;
+}
+
+function code(text: string): string {
+  return `<code>${escapeHtml(text)}</code>`;
+}
+
+function block(text: string, className = '', language?: string): string {
+  return `<pre class="tool-view-block${className ? ` ${className}` : ''}">${highlight(text, language)}</pre>`;
+}
+
+function filePath(path: string, detail?: string): string {
+  return `
+            <div class="tool-file-path">
+              <i class="bi bi-file-earmark-text"></i>
+              <span>${escapeHtml(path)}</span>
+              ${detail ? `<span class="tool-file-detail">${escapeHtml(detail)}</span>` : ''}
+            </div>`;
+}
+
+function shellCommand(command: string, workdir?: string, notes: string[] = []): string {
+  return `
+            ${workdir ? row('cwd', code(workdir)) : ''}
+            <pre class="tool-view-block shell-command"><span class="shell-prompt">$ </span>${highlight(command, 'shell')}</pre>
+            ${notes.length > 0 ? `<div class="tool-view-notes">${notes.map(escapeHtml).join(' · ')}</div>` : ''}`;
+}
+
+function formatTimeout(ms: number | undefined): string | undefined {
+  return ms !== undefined ? `timeout ${ms >= 1000 ? `${Math.round(ms / 1000)}s` : `${ms}ms`}` : undefined;
+}
+
+// Claude Code
+
+registerToolRenderer('Bash', ({ input }) => {
+  const command = str(input.command);
+  if (command === undefined) return undefined;
+  const notes = [
+    str(input.description),
+    formatTimeout(num(input.timeout)),
+    input.run_in_background === true ? 'in background' : undefined,
+  ].filter((note): note is string => note !== undefined);
+  return shellCommand(command, undefined, notes);
+});
+
+registerToolRenderer('Read', ({ input }) => {
+  const path = str(input.file_path);
+  if (path === undefined) return undefined;
+  const offset = num(input.offset);
+  const limit = num(input.limit);
+  let range: string | undefined;
+  if (offset !== undefined && limit !== undefined) {
+    range = `lines ${offset}–${offset + limit - 1}`;
+  } else if (offset !== undefined) {
+    range = `from line ${offset}`;
+  } else if (limit !== undefined) {
+    range = `first ${limit} lines`;
+  }
+  return filePath(path, range);
+});
+
+registerToolRenderer('Write', ({ input }) => {
+  const path = str(input.file_path);
+  const content = str(input.content);
+  if (path === undefined || content === undefined) return undefined;
+  const lines = content.split('\n').length;
+  return `${filePath(path, `${lines} ${lines === 1 ? 'line' : 'lines'}`)}
+            ${block(content, '', languageForPath(path))}`;
+});
+
+const DIFF_SIGNS: Record<DiffLine['type'], string> = {
+  context: ' ',
+  add: '+',
+  remove: '-',
+};
+
+export function renderDiffStat(added: number, removed: number): string {
+  return `<span class="diff-stat"><span class="diff-added">+${added}</span> <span class="diff-removed">−${removed}</span></span>`;
+}
+
+function renderDiff(diff: FileDiff): string {
+  // Lines are highlighted one at a time, as a hunk is not a complete file
+  const language = languageForPath(diff.movedTo || diff.path);
+  const hunks = diff.hunks.map(hunk => {
+    const lines = hunk.lines.map(line =>
+      `<div class="diff-line ${line.type}"><span class="diff-sign">${DIFF_SIGNS[line.type]}</span>${highlight(line.text, language)}</div>`
+    ).join('');
+    return `
+              ${hunk.header !== undefined || diff.hunks.length > 1 ? `<div class="diff-hunk-header">@@ ${escapeHtml(hunk.header || '')}</div>` : ''}
+              <div class="diff-hunk">${lines}</div>`;
+  }).join('');
+
+  return `
+            <div class="tool-diff">
+              <div class="diff-file-header">
+                <span class="patch-op ${diff.operation}">${FILE_OPERATION_LABELS[diff.operation]}</span>
+                <span class="diff-path">${escapeHtml(diff.path)}${diff.movedTo ? ` → ${escapeHtml(diff.movedTo)}` : ''}</span>
+                ${renderDiffStat(diff.added, diff.removed)}
+              </div>${hunks}
+            </div>`;
+}
+
+function renderDiffs(call: ToolCall): string | undefined {
+  const diffs = diffsForToolCall(call);
+  return diffs ? diffs.map(renderDiff).join('') : undefined;
+}
+
+registerToolRenderer(['Edit', 'MultiEdit'], renderDiffs);
+
+registerToolRenderer('Grep', ({ input }) => {
+  const pattern = str(input.pattern);
+  if (pattern === undefined) return undefined;
+  const flags = [
+    input['-i'] === true ? 'case-insensitive' : undefined,
+    input.multiline === true ? 'multiline' : undefined,
+    str(input.output_mode),
+    num(input['-C']) !== undefined ? `±${input['-C']} lines` : undefined,
+    num(input.head_limit) !== undefined ? `first ${input.head_limit}` : undefined,
+  ].filter((flag): flag is string => flag !== undefined);
+  return `
+            ${row('pattern', code(pattern))}
+            ${str(input.path) ? row('in', code(str(input.path)!)) : ''}
+            ${str(input.glob) ? row('glob', code(str(input.glob)!)) : ''}
+            ${str(input.type) ? row('type', code(str(input.type)!)) : ''}
+            ${flags.length > 0 ? `<div class="tool-view-notes">${flags.map(escapeHtml).join(' · ')}</div>` : ''}`;
+});
+
+registerToolRenderer('Glob', ({ input }) => {
+  const pattern = str(input.pattern);
+  if (pattern === undefined) return undefined;
+  return `
+            ${row('pattern', code(pattern))}
+            ${str(input.path) ? row('in', code(str(input.path)!)) : ''}`;
+});
+
+const TODO_ICONS: Record<string, string> = {
+  pending: 'bi-square',
+  in_progress: 'bi-arrow-right-square',
+  completed: 'bi-check-square',
+};
+
+function todoList(todos: Record<string, unknown>[], textKey: string): string {
+  const items = todos.map(todo => {
+    const status = str(todo?.status) || 'pending';
+    return `
+              <li class="todo-item ${escapeHtml(status)}">
+                <i class="bi ${TODO_ICONS[status] || 'bi-square'}"></i>
+                <span>${escapeHtml(str(todo?.[textKey]) || '')}</span>
+              </li>`;
+  });
+  return `<ul class="tool-todos">${items.join('')}
+            </ul>`;
+}
+
+registerToolRenderer('TodoWrite', ({ input }) => {
+  if (!Array.isArray(input.todos)) return undefined;
+  return todoList(input.todos, 'content');
+});
+
+registerToolRenderer('WebFetch', ({ input }) => {
+  const url = str(input.url);
+  if (url === undefined) return undefined;
+  const link = /^https?:\/\//i.test(url)
+    ? `<a href="${escapeHtml(url)}" target="_blank" rel="noopener noreferrer">${escapeHtml(url)}</a>`
+    : code(url);
+  return `
+            ${row('url', link)}
+            ${str(input.prompt) ? block(str(input.prompt)!) : ''}`;
+});
+
+// Codex
+
+registerToolRenderer(['shell_command', 'shell'], call => {
+  // Patches applied through the shell get the same view as apply_patch
+  const { input } = call;
+  const diffs = renderDiffs(call);
+  if (diffs !== undefined) {
+    return `${str(input.workdir) ? row('cwd', code(str(input.workdir)!)) : ''}${diffs}`;
+  }
+
+  // shell_command takes a string; the older shell tool an argv array,
+  // usually ["bash", "-lc", "<script>"]
+  const command = shellCommandText(input);
+  if (command === undefined) return undefined;
+  const notes = [formatTimeout(num(input.timeout_ms))].filter((note): note is string => note !== undefined);
+  return shellCommand(command, str(input.workdir), notes);
+});
+
+registerToolRenderer('update_plan', ({ input }) => {
+  if (!Array.isArray(input.plan)) return undefined;
+  const explanation = str(input.explanation);
+  return `${explanation ? `<div class="tool-view-notes">${escapeHtml(explanation)}</div>` : ''}
+            ${todoList(input.plan, 'step')}`;
+});
+
+registerToolRenderer('apply_patch', call => {
+  // Fall back to the raw text for patches with no file sections
+  const patch = str(call.input.raw) ?? str(call.input.input);
+  return renderDiffs(call) ?? (patch !== undefined ? block(patch, '', 'diff') : undefined);
+});
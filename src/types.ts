@@ -6,6 +6,7 @@ export interface TokenUsage {
   outputTokens: number;
   cacheCreationTokens?: number;
   cacheReadTokens?: number;
+  reasoningTokens?: number;  // Part of outputTokens spent on reasoning/thinking
 }
 
 export interface ToolCall {
@@ -14,18 +15,104 @@ export interface ToolCall {
   input: Record<string, unknown>;
 }
 
+export type ToolStatus = 'success' | 'error' | 'interrupted';
+
+// An image pasted into a message or returned by a tool, as base64 data or
+// a URL
+export interface ImageSource {
+  mediaType?: string;    // e.g. image/png
+  data?: string;         // Base64-encoded image
+  url?: string;
+}
+
+// One block of a tool result that was returned as a list of blocks
+export interface ToolResultPart {
+  type: 'text' | 'image' | 'other';
+  text?: string;         // Text, or the JSON of an other block
+  image?: ImageSource;
+  blockType?: string;    // Type of an other block, e.g. document
+}
+
 export interface ToolResult {
   toolUseId: string;
-  content: string;
+  content: string;       // Result as sent back to the model (the text of all parts)
+  parts?: ToolResultPart[];  // Blocks in order, when the result is not plain text
+  // Structured command output, when the harness records it
+  stdout?: string;
+  stderr?: string;
+  exitCode?: number;
+  interrupted?: boolean;
+  isError?: boolean;     // The harness reported the call as failed
+  status?: ToolStatus;   // Outcome, as classified by getToolStatus
 }
 
 export interface MessageContent {
-  type: 'text' | 'tool_use' | 'tool_result' | 'thinking';
+  type: 'text' | 'tool_use' | 'tool_result' | 'thinking' | 'image';
   text?: string;
   toolCall?: ToolCall;
   toolResult?: ToolResult;
+  image?: ImageSource;
+}
+
+// Model and policy settings in effect for a turn (Codex turn_context)
+export interface TurnContext {
+  model?: string;
+  effort?: string;          // Reasoning effort
+  summary?: string;         // Reasoning summary mode
+  approvalPolicy?: string;
+  sandboxPolicy?: string;
+}
+
+// Usage of one rate-limit window (Codex rate_limits)
+export interface RateLimitWindow {
+  usedPercent: number;
+  windowMinutes?: number;
+  resetsAt?: string;  // ISO timestamp at which the window resets
+}
+
+// Rate-limit state reported at a point in the session
+export interface RateLimitSample {
+  timestamp: string;
+  primary?: RateLimitWindow;    // Short window (e.g. 5 hours)
+  secondary?: RateLimitWindow;  // Long window (e.g. weekly)
+  credits?: {
+    hasCredits: boolean;
+    unlimited: boolean;
+    balance?: string;
+  };
+}
+
+// Settings that changed between two consecutive turns
+export interface ContextChangeEvent {
+  type: 'context_change';
+  previous: TurnContext;
+  context: TurnContext;
+  changed: (keyof TurnContext)[];
+}
+
+// A turn cut short by the user, abandoned by the harness, or ended by an error
+export interface InterruptionEvent {
+  type: 'interruption';
+  kind: 'interrupted' | 'aborted' | 'error';
+  reason?: string;     // Harness-reported reason (e.g. Codex turn_aborted reason)
+  detail?: string;     // Error message or interruption notice
+  toolUseId?: string;  // Tool call that was running when the turn stopped
+}
+
+// Workspace state the harness saved so it can be restored (Codex ghost
+// commits, Claude file history)
+export interface CheckpointEvent {
+  type: 'checkpoint';
+  commit?: string;            // Ghost commit id
+  parentCommit?: string;      // Commit the ghost commit was taken on top of
+  untrackedFiles?: string[];  // Untracked files left out of the ghost commit
+  files?: string[];           // Files with a backup at this point
+  messageId?: string;         // Message the snapshot was taken before
 }
 
+// Non-conversational timeline events, rendered as dividers
+export type SessionEvent = ContextChangeEvent | InterruptionEvent | CheckpointEvent;
+
 export interface ChatMessage {
   id: string;
   role: 'user' | 'assistant' | 'system';
@@ -34,22 +121,59 @@ export interface ChatMessage {
   model?: string;
   usage?: TokenUsage;
   isHarness?: boolean;
+  event?: SessionEvent;
+}
+
+// A sub-agent conversation (Claude sidechain) spawned from the main thread
+export interface ChatThread {
+  id: string;                 // agentId, or the uuid of the thread's first entry
+  agentId?: string;
+  parentToolCallId?: string;  // Tool call (e.g. Task) that spawned the thread
+  messages: ChatMessage[];
+  totalUsage: TokenUsage;
+}
+
+export interface ParseDiagnostic {
+  file?: string;    // Source file, when several files were merged
+  line: number;     // 1-based line number in the source file
+  snippet: string;  // Start of the offending line
+  error: string;    // Parser error message
 }
 
 export interface ChatSession {
   sessionId: string;
   agentId?: string;
   model?: string;
+  models?: string[];           // Every model used, in order of first use
+  turnContext?: TurnContext;   // Settings of the first turn
   version?: string;
   cwd?: string;
   gitBranch?: string;
+  gitCommit?: string;      // Commit checked out when the session started
+  repositoryUrl?: string;
   messages: ChatMessage[];
   totalUsage: TokenUsage;
   source: 'claude' | 'codex' | 'gemini' | 'unknown';
+  threads?: ChatThread[];           // Sub-agent threads, not included in messages
+  diagnostics?: ParseDiagnostic[];  // Lines skipped by lenient parsing
+  rateLimits?: RateLimitSample[];   // Rate-limit usage over the session, when changed
 }
 
+// Session metadata and totals without the message list, as returned by
+// streaming parsers once their input is exhausted
+export type SessionSummary = Omit<ChatSession, 'messages'> & {
+  messageCount: number;
+};
+
+export type SessionSource = ChatSession['source'];
+
+// Formats that have a parser; 'unknown' is only a fallback for rendering
+export type SessionFormat = Exclude<SessionSource, 'unknown'>;
+
 export interface ParseOptions {
   identifyHarness?: boolean;
+  format?: SessionFormat;  // Skip detection and force this parser
+  strict?: boolean;        // Throw on the first malformed line instead of skipping it
 }
 
 export interface ThemeConfig {
@@ -78,25 +202,53 @@ export interface ThemeConfig {
   fontCode?: string;     // Code/monospace font family
 }
 
+export interface FormatDetection {
+  confidence: number;  // 0 (not this format) to 1 (certainly this format)
+  reason: string;      // Human-readable explanation of the score
+}
+
 export interface Parser {
-  canParse(firstLine: string): boolean;
+  readonly format: SessionFormat;
+  detect(content: string): FormatDetection;
+  /** @deprecated Use detect(), which also says how confident the match is */
+  canParse(content: string): boolean;
   parse(content: string, options?: ParseOptions): ChatSession;
+  // Incremental mode: yields messages as they are parsed from the stream and
+  // returns the session summary once the input is exhausted
+  parseStream(input: NodeJS.ReadableStream, options?: ParseOptions): AsyncGenerator<ChatMessage, SessionSummary>;
+}
+
+/**
+ * Classify a tool result by outcome. An interruption wins over the error it
+ * usually also produces; otherwise a harness error flag or a non-zero exit
+ * code marks the call as failed.
+ */
+export function getToolStatus(result: ToolResult): ToolStatus {
+  if (result.interrupted) {
+    return 'interrupted';
+  }
+  if (result.isError || (result.exitCode !== undefined && result.exitCode !== 0)) {
+    return 'error';
+  }
+  return 'success';
 }
 
 /**
  * Calculate total tokens based on source type.
  * - Claude: input_tokens is non-cached, cache tokens are separate and should be added
  * - Codex: input_tokens already includes cached tokens, cache_read is informational only
+ * - Gemini: promptTokenCount already includes cached content, same as Codex
  */
 export function getTotalTokens(
   usage: TokenUsage,
   source: 'claude' | 'codex' | 'gemini' | 'unknown'
 ): number {
   let total = usage.inputTokens + usage.outputTokens;
-  if (source === 'claude' || source === 'gemini' || source === 'unknown') {
+  if (source === 'claude' || source === 'unknown') {
     // For Claude-style APIs, cache tokens are separate from input_tokens
     total += (usage.cacheCreationTokens || 0) + (usage.cacheReadTokens || 0);
   }
-  // For Codex, input_tokens already includes cached, so no addition needed
+  // For Codex and Gemini, input_tokens already includes cached, so no addition needed.
+  // Reasoning tokens are a breakdown of outputTokens for every source.
   return total;
 }
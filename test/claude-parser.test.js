@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ClaudeParser } from '../dist/parsers/claude.js';
+
+const base = { sessionId: 's1', timestamp: '2026-01-01T00:00:00Z' };
+
+function entry(uuid, content, extra = {}) {
+  return { ...base, type: 'user', uuid, message: { role: 'user', content }, ...extra };
+}
+
+function toolResult(uuid, extra) {
+  return entry(uuid, [{ type: 'tool_result', tool_use_id: `call-${uuid}`, content: 'ok' }], extra);
+}
+
+function parse(entries) {
+  return new ClaudeParser().parse(entries.map(e => JSON.stringify(e)).join('\n'));
+}
+
+const todo = (content, status) => ({ content, status, activeForm: content });
+const sidechain = { isSidechain: true, agentId: 'agent-1' };
+
+test('diffs todo lists per thread', () => {
+  const session = parse([
+    entry('u1', 'hi'),
+    toolResult('u2', { toolUseResult: { newTodos: [todo('A', 'pending')] } }),
+    toolResult('a1', { ...sidechain, toolUseResult: { newTodos: [todo('Z', 'pending')] } }),
+    toolResult('u3', { toolUseResult: { newTodos: [todo('A', 'completed')] } }),
+  ]);
+  const todos = session.messages.filter(m => m.id.endsWith(':todos')).map(m => m.content[0].text);
+  assert.deepEqual(todos, [
+    'Todo list updated:\n- [pending] A (new)',
+    'Todo list updated:\n- [completed] A (pending → completed)',
+  ]);
+  const agentTodos = session.threads[0].messages.find(m => m.id === 'a1:todos');
+  assert.equal(agentTodos.content[0].text, 'Todo list updated:\n- [pending] Z (new)');
+});
+
+test('a sub-agent interruption does not hide the main thread notice', () => {
+  const session = parse([
+    entry('u1', 'hi'),
+    toolResult('a1', { ...sidechain, toolUseResult: { interrupted: true } }),
+    entry('u2', [{ type: 'text', text: '[Request interrupted by user]' }]),
+  ]);
+  const notices = session.messages.filter(m => m.event?.type === 'interruption');
+  assert.deepEqual(notices.map(m => m.id), ['u2']);
+});
+
+test('the notice after an interrupted tool result is not repeated', () => {
+  const session = parse([
+    entry('u1', 'hi'),
+    toolResult('u2', { toolUseResult: { interrupted: true } }),
+    entry('u3', [{ type: 'text', text: '[Request interrupted by user for tool use]' }]),
+  ]);
+  const notices = session.messages.filter(m => m.event?.type === 'interruption');
+  assert.deepEqual(notices.map(m => m.id), ['u2:interrupted']);
+});
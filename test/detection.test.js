@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { ClaudeParser, CodexParser, GeminiParser, detectFormat } from '../dist/parsers/index.js';
+
+const examples = {
+  claude: readFileSync(new URL('../examples/claude.jsonl', import.meta.url), 'utf-8'),
+  codex: readFileSync(new URL('../examples/codex.jsonl', import.meta.url), 'utf-8'),
+  gemini: readFileSync(new URL('../examples/gemini.json', import.meta.url), 'utf-8'),
+};
+
+test('detects the format of each example log', () => {
+  for (const [format, content] of Object.entries(examples)) {
+    const result = detectFormat(content);
+    assert.equal(result.format, format);
+    assert.equal(result.forced, false);
+  }
+});
+
+test('canParse agrees with detect for earlier callers', () => {
+  const parsers = { claude: new ClaudeParser(), codex: new CodexParser(), gemini: new GeminiParser() };
+  for (const [format, parser] of Object.entries(parsers)) {
+    for (const [example, content] of Object.entries(examples)) {
+      assert.equal(parser.canParse(content), format === example, `${format} parser on ${example} log`);
+    }
+  }
+});
+
+test('recognizes a Gemini document from its head alone', () => {
+  // --stream only reads the start of a file before picking a parser
+  const head = examples.gemini.slice(0, 2000);
+  const result = detectFormat(head);
+  assert.equal(result.format, 'gemini');
+  assert.ok(result.confidence < 1);
+  assert.equal(new GeminiParser().detect(examples.claude.slice(0, 2000)).confidence, 0);
+});
+
+test('reports each parser when no format fits', () => {
+  assert.throws(() => detectFormat('not a log'), /claude: .*\n.*codex: .*\n.*gemini: /);
+});
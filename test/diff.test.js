@@ -0,0 +1,66 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { diffLines, parsePatch } from '../dist/diff.js';
+
+const line = (type, text) => ({ type, text });
+
+test('diffs lines around a common prefix and suffix', () => {
+  assert.deepEqual(diffLines('a\nb\nc\n', 'a\nx\nc\n'), [
+    line('context', 'a'),
+    line('remove', 'b'),
+    line('add', 'x'),
+    line('context', 'c'),
+  ]);
+});
+
+test('keeps common lines inside a changed run', () => {
+  assert.deepEqual(diffLines('a\nb\nc\nd', 'x\nb\nd\ny'), [
+    line('remove', 'a'),
+    line('add', 'x'),
+    line('context', 'b'),
+    line('remove', 'c'),
+    line('context', 'd'),
+    line('add', 'y'),
+  ]);
+});
+
+test('leaves identical text as context', () => {
+  assert.deepEqual(diffLines('same\n', 'same\n'), [line('context', 'same')]);
+});
+
+test('parses an apply_patch envelope into one diff per file', () => {
+  const patch = [
+    '*** Begin Patch',
+    '*** Update File: src/app.ts',
+    '*** Move to: src/main.ts',
+    '@@ function run() {',
+    ' const a = 1;',
+    '-const b = 2;',
+    '+const b = 3;',
+    '',
+    '*** Add File: README.md',
+    '+# Title',
+    '+',
+    '*** Delete File: old.txt',
+    '*** End Patch',
+  ].join('\n');
+
+  const [update, add, remove] = parsePatch(patch);
+
+  assert.equal(update.path, 'src/app.ts');
+  assert.equal(update.movedTo, 'src/main.ts');
+  assert.equal(update.operation, 'update');
+  assert.deepEqual(update.hunks, [{
+    header: 'function run() {',
+    lines: [line('context', 'const a = 1;'), line('remove', 'const b = 2;'), line('add', 'const b = 3;')],
+  }]);
+  assert.equal(update.added, 1);
+  assert.equal(update.removed, 1);
+
+  assert.equal(add.operation, 'add');
+  assert.deepEqual(add.hunks[0].lines, [line('add', '# Title'), line('add', '')]);
+  assert.equal(add.added, 2);
+
+  assert.equal(remove.operation, 'delete');
+  assert.deepEqual(remove.hunks, []);
+});
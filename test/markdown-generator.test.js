@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createReadStream, readFileSync } from 'fs';
+import { Writable } from 'stream';
+import { generateMarkdown, writeMarkdownStream } from '../dist/markdown-generator.js';
+import { CodexParser } from '../dist/parsers/index.js';
+
+const examplePath = new URL('../examples/codex.jsonl', import.meta.url);
+
+test('opens with the session id and metadata table', () => {
+  const session = new CodexParser().parse(readFileSync(examplePath, 'utf-8'));
+  const markdown = generateMarkdown(session);
+  assert.ok(markdown.startsWith(`# Chat Session \`${session.sessionId}\`\n\n| Field | Value |`));
+});
+
+test('streams the same transcript as the whole-session renderer', async () => {
+  const parser = new CodexParser();
+  const expected = generateMarkdown(parser.parse(readFileSync(examplePath, 'utf-8')));
+
+  let streamed = '';
+  const output = new Writable({
+    write(chunk, _encoding, callback) {
+      streamed += chunk.toString();
+      callback();
+    },
+  });
+  const summary = await writeMarkdownStream(output, parser.parseStream(createReadStream(examplePath)), 'codex');
+
+  assert.equal(streamed, expected);
+  assert.ok(summary.messageCount > 0);
+});
+
+test('shows an empty command result as "(no output)"', () => {
+  const result = {
+    toolUseId: 'call-1',
+    content: 'Exit code: 0\nWall time: 0.1 seconds\nOutput:\n',
+    stdout: '',
+    exitCode: 0,
+    status: 'success',
+  };
+  const markdown = generateMarkdown({
+    sessionId: 's1',
+    source: 'codex',
+    totalUsage: { inputTokens: 0, outputTokens: 0 },
+    messages: [{ id: 'm1', role: 'user', timestamp: '', content: [{ type: 'tool_result', toolResult: result }] }],
+  });
+  assert.match(markdown, /\*\(no output\)\*/);
+  assert.doesNotMatch(markdown, /Wall time/);
+});
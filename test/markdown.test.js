@@ -0,0 +1,100 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync, readdirSync } from 'fs';
+import { renderMarkdown } from '../dist/markdown.js';
+import { detectFormat } from '../dist/parsers/index.js';
+
+test('renders GFM tables with column alignment', () => {
+  const html = renderMarkdown('| a | b |\n|---|--:|\n| 1 | 2 |');
+  assert.match(html, /<table>/);
+  assert.match(html, /<th>a<\/th><th class="align-right">b<\/th>/);
+  assert.match(html, /<td>1<\/td><td class="align-right">2<\/td>/);
+});
+
+test('keeps the start number of ordered lists', () => {
+  assert.equal(renderMarkdown('3. x\n4. y'), '<ol start="3">\n<li>x</li>\n<li>y</li>\n</ol>');
+  assert.match(renderMarkdown('1. x'), /^<ol>/);
+});
+
+test('renders task lists as disabled checkboxes', () => {
+  const html = renderMarkdown('- [ ] todo\n- [x] done');
+  assert.match(html, /<ul class="contains-task-list">/);
+  assert.match(html, /<input type="checkbox" disabled> todo/);
+  assert.match(html, /<input type="checkbox" disabled checked> done/);
+});
+
+test('does not emphasize intraword underscores', () => {
+  assert.equal(renderMarkdown('snake_case_name and _em_'), '<p>snake_case_name and <em>em</em></p>');
+  assert.equal(renderMarkdown('foo__bar__baz'), '<p>foo__bar__baz</p>');
+});
+
+test('nests block quotes', () => {
+  assert.equal(
+    renderMarkdown('> a\n> > b'),
+    '<blockquote>\n<p>a</p>\n<blockquote>\n<p>b</p>\n</blockquote>\n</blockquote>',
+  );
+});
+
+test('escapes raw HTML', () => {
+  assert.equal(
+    renderMarkdown('<script>alert(1)</script> & "q"'),
+    '<p>&lt;script&gt;alert(1)&lt;/script&gt; &amp; &quot;q&quot;</p>',
+  );
+});
+
+test('drops javascript: links and keeps http(s) ones', () => {
+  const html = renderMarkdown('[x](javascript:alert(1)) [y](https://example.com)');
+  assert.doesNotMatch(html, /javascript:/);
+  assert.match(html, /<a href="https:\/\/example.com"[^>]*>y<\/a>/);
+  assert.doesNotMatch(renderMarkdown('<javascript:alert(1)>'), /href="javascript/);
+});
+
+test('renders images as links instead of loading them', () => {
+  const html = renderMarkdown('![pixel](https://example.com/p.gif)');
+  assert.doesNotMatch(html, /<img/);
+  assert.match(html, /<a class="image-link" href="https:\/\/example.com\/p.gif"/);
+});
+
+test('leaves nesting past the depth limit as text', () => {
+  for (const text of ['> '.repeat(2000) + 'x', '- '.repeat(2000) + 'x', '1. '.repeat(1000)]) {
+    assert.doesNotThrow(() => renderMarkdown(text));
+  }
+  const html = renderMarkdown('> '.repeat(40) + 'x');
+  assert.equal(html.match(/<blockquote>/g).length, 32);
+  assert.match(html, /<p>(&gt; ){8}x<\/p>/);
+});
+
+test('parses unclosed links in linear time', () => {
+  // Each "](" used to rescan the rest of the text
+  for (const text of ['[a](b'.repeat(20000), '['.repeat(20000) + ']'.repeat(20000), '[a'.repeat(20000) + ']'.repeat(20000)]) {
+    const started = Date.now();
+    renderMarkdown(text);
+    assert.ok(Date.now() - started < 1000, `took ${Date.now() - started} ms`);
+  }
+});
+
+test('matches reference labels on their source text', () => {
+  assert.equal(
+    renderMarkdown('[foo *bar*]\n\n[foo *bar*]: /u'),
+    '<p><a href="/u" target="_blank" rel="noopener">foo <em>bar</em></a></p>',
+  );
+  assert.equal(renderMarkdown('[a [b](c) d](e)'), '<p>[a <a href="c" target="_blank" rel="noopener">b</a> d](e)</p>');
+});
+
+// Every text item of the example logs goes through the renderer without
+// leaking markup from the log
+const examples = new URL('../examples/', import.meta.url);
+for (const name of readdirSync(examples)) {
+  test(`renders the text of examples/${name}`, () => {
+    const content = readFileSync(new URL(name, examples), 'utf-8');
+    const session = detectFormat(content).parser.parse(content);
+    const texts = session.messages.flatMap(message => message.content)
+      .filter(item => item.type === 'text' && item.text)
+      .map(item => item.text);
+    assert.ok(texts.length > 0);
+    for (const text of texts) {
+      const html = renderMarkdown(text);
+      assert.doesNotMatch(html, /<script|<iframe|<img|href="javascript:/i);
+    }
+  });
+}
@@ -0,0 +1,99 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  CostTally,
+  DEFAULT_PRICES,
+  estimateCost,
+  estimateSessionCost,
+  findPrice,
+  loadPriceTable,
+} from '../dist/pricing.js';
+
+const price = { input: 2, output: 10, cacheWrite: 3, cacheRead: 0.5 };
+
+test('matches exact names, then the longest prefix', () => {
+  assert.equal(findPrice(DEFAULT_PRICES, 'gpt-5'), DEFAULT_PRICES['gpt-5']);
+  assert.equal(findPrice(DEFAULT_PRICES, 'gpt-5-mini-2025-08-07'), DEFAULT_PRICES['gpt-5-mini']);
+  assert.equal(findPrice(DEFAULT_PRICES, 'claude-opus-4-5-20251101'), DEFAULT_PRICES['claude-opus-4-5']);
+  assert.equal(findPrice(DEFAULT_PRICES, 'claude-opus-4-1-20250805'), DEFAULT_PRICES['claude-opus-4']);
+  assert.equal(findPrice(DEFAULT_PRICES, 'unknown-model'), undefined);
+  assert.equal(findPrice(DEFAULT_PRICES, undefined), undefined);
+});
+
+test('prices Claude cache tokens on top of input', () => {
+  const usage = { inputTokens: 1_000_000, outputTokens: 1_000_000, cacheCreationTokens: 1_000_000, cacheReadTokens: 1_000_000 };
+  assert.equal(estimateCost(usage, 'claude', price), 2 + 10 + 3 + 0.5);
+});
+
+test('takes cached tokens out of Codex and Gemini input', () => {
+  const usage = { inputTokens: 1_000_000, outputTokens: 0, cacheReadTokens: 400_000 };
+  const expected = 0.6 * 2 + 0.4 * 0.5;
+  assert.equal(estimateCost(usage, 'codex', price), expected);
+  assert.equal(estimateCost(usage, 'gemini', price), expected);
+});
+
+test('does not charge reasoning on top of output', () => {
+  const usage = { inputTokens: 0, outputTokens: 1_000_000, reasoningTokens: 600_000 };
+  assert.equal(estimateCost(usage, 'codex', price), 10);
+  assert.equal(estimateCost(usage, 'codex', { ...price, reasoning: 20 }), 0.4 * 10 + 0.6 * 20);
+  // Reasoning beyond the output count is capped rather than added
+  assert.equal(estimateCost({ ...usage, reasoningTokens: 2_000_000 }, 'codex', price), 10);
+});
+
+const table = {
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-haiku-4-5': { input: 1, output: 5 },
+};
+const million = { inputTokens: 1_000_000, outputTokens: 0 };
+
+function session(messages, extra = {}) {
+  const totalUsage = { inputTokens: 0, outputTokens: 0 };
+  for (const message of [...messages, ...(extra.threads || []).flatMap(t => t.messages)]) {
+    totalUsage.inputTokens += message.usage?.inputTokens || 0;
+  }
+  return { source: 'claude', model: messages[0].model, messages, totalUsage, ...extra };
+}
+
+test('prices each message at its own model, sub-agent threads included', () => {
+  const main = [{ model: 'claude-sonnet-4-20250514', usage: million }];
+  const agent = { messages: [{ model: 'claude-haiku-4-5-20251001', usage: million }, { model: 'claude-haiku-4-5-20251001', usage: million }] };
+  assert.equal(estimateSessionCost(session(main, { threads: [agent] }), table), 3 + 2 * 1);
+});
+
+test('ignores a <synthetic> first model', () => {
+  const messages = [
+    { model: '<synthetic>', usage: { inputTokens: 0, outputTokens: 0 } },
+    { model: 'claude-haiku-4-5', usage: million },
+  ];
+  assert.equal(estimateSessionCost(session(messages), table), 1);
+});
+
+test('prices usage no message accounts for at the last model', () => {
+  const tally = new CostTally('codex', { 'gpt-5': { input: 1, output: 1 }, 'gpt-5.1': { input: 2, output: 2 } });
+  tally.add([{ model: 'gpt-5', usage: million }, { role: 'user' }, { model: 'gpt-5.1', usage: million }]);
+  // A final token count after the last response adds another million
+  assert.equal(tally.total({ inputTokens: 3_000_000, outputTokens: 0 }, 'gpt-5'), 1 + 2 + 2);
+  assert.equal(new CostTally('codex', table).total(million, 'unknown-model'), undefined);
+});
+
+function loadPrices(doc) {
+  const dir = mkdtempSync(join(tmpdir(), 'pricing-test-'));
+  try {
+    const path = join(dir, 'prices.json');
+    writeFileSync(path, JSON.stringify(doc));
+    return loadPriceTable(path);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+test('merges validated user prices over the defaults', () => {
+  const table = loadPrices({ 'my-model': { input: 1, output: 2, cacheRead: 0.1, note: 'ignored' } });
+  assert.deepEqual(table['my-model'], { input: 1, output: 2, cacheWrite: undefined, cacheRead: 0.1, reasoning: undefined });
+  assert.equal(table['gpt-5'], DEFAULT_PRICES['gpt-5']);
+  assert.throws(() => loadPrices({ m: { input: 1 } }), /needs a non-negative number for "output"/);
+  assert.throws(() => loadPrices({ m: { input: 1, output: 2, cacheRead: -1 } }), /"cacheRead"/);
+});